@@ -11,6 +11,8 @@ module.exports = {
       autorestart: true,
       watch: false,
       max_memory_restart: "1G",
+      // Give index.js time to finish in-flight requests before it's killed on reload
+      kill_timeout: 12000,
       env: {
         NODE_ENV: "development",
       },
@@ -1,10 +1,127 @@
+const path = require("path");
+const compression = require("compression");
 const express = require("express");
+const { createAPIProxy } = require("./proxy/api");
 const app = express();
 const port = process.env.PORT || 3700;
+const useMockAPI = process.argv.includes("--mock");
+const distDirectory = path.join(__dirname, "dist");
+const assetsDirectory = path.join(distDirectory, "assets");
+const apiUpstream =
+  process.env.API_UPSTREAM || "https://waffle-api.philipwhite.dev";
+const apiTimeout = Number(process.env.API_TIMEOUT) || 8000;
+const shutdownTimeout = 10000;
+let isShuttingDown = false;
+
+const contentSecurityPolicy = [
+  "default-src 'self'",
+  `connect-src 'self' ${process.env.API_ORIGIN ?? ""}`.trim(),
+  "style-src 'self' https://fonts.googleapis.com",
+  "font-src 'self' https://fonts.gstatic.com",
+  "img-src 'self' data: blob:",
+  "object-src 'none'",
+  "base-uri 'self'",
+  "form-action 'self'",
+  "frame-ancestors 'none'",
+].join("; ");
+
 app.enable("trust proxy");
+app.disable("x-powered-by");
+
+// Compress responses with brotli or gzip, depending on what the browser accepts
+app.use(compression());
+
+// Security headers
+app.use((req, res, next) => {
+  res.set({
+    "Content-Security-Policy": contentSecurityPolicy,
+    "Strict-Transport-Security": "max-age=31536000; includeSubDomains",
+    "X-Content-Type-Options": "nosniff",
+    "X-Frame-Options": "DENY",
+    "Referrer-Policy": "strict-origin-when-cross-origin",
+    "Permissions-Policy": "camera=(), microphone=(), geolocation=()",
+  });
+  if (isShuttingDown) res.set("Connection", "close");
+  next();
+});
+
+// Health check for the process manager and load balancer
+app.get("/healthz", (req, res) => {
+  res.set("Cache-Control", "no-store");
+  if (isShuttingDown) {
+    res.status(503).json({ status: "shutting down" });
+    return;
+  }
+  res.json({ status: "ok", uptime: process.uptime() });
+});
+
+// Forward API requests to the backend, or serve a local copy of it (see mock/api.js)
+if (useMockAPI) {
+  const { createMockAPI } = require("./mock/api");
+  app.use("/api", createMockAPI());
+} else {
+  app.use(
+    "/api",
+    createAPIProxy({ upstream: apiUpstream, timeout: apiTimeout })
+  );
+}
+
+// Vite fingerprints the file names of built assets, so they can be cached forever,
+// while everything else must be revalidated to pick up new deployments
+app.use(
+  express.static(distDirectory, {
+    setHeaders: (res, filePath) => {
+      res.set(
+        "Cache-Control",
+        filePath.startsWith(assetsDirectory)
+          ? "public, max-age=31536000, immutable"
+          : "no-cache"
+      );
+    },
+  })
+);
 
-app.use(express.static("dist"));
+// History API fallback
+// Serve index.html for page navigations the static files don't match, so client-side
+// routes survive a reload, while missing files still return 404
+app.use((req, res, next) => {
+  if (
+    (req.method !== "GET" && req.method !== "HEAD") ||
+    path.extname(req.path) ||
+    !req.accepts("html")
+  ) {
+    next();
+    return;
+  }
+  res.set("Cache-Control", "no-cache");
+  res.sendFile(path.join(distDirectory, "index.html"));
+});
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`Listening on port ${port}`);
+  console.log(
+    useMockAPI
+      ? "Serving the mock API at /api"
+      : `Proxying /api to ${apiUpstream}`
+  );
 });
+
+/**
+ * Stops accepting new connections and exits once in-flight requests have finished,
+ * so pm2 reloads don't drop requests. Exits anyway if they take too long.
+ *
+ * @param {string} signal - The signal that triggered the shutdown
+ */
+const shutdown = (signal) => {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+  console.log(`${signal} received, shutting down`);
+  server.close(() => process.exit(0));
+  setTimeout(() => {
+    console.error("Requests still open, forcing shutdown");
+    process.exit(1);
+  }, shutdownTimeout).unref();
+};
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
@@ -0,0 +1,190 @@
+const express = require("express");
+const puzzles = require("./puzzles.json");
+
+const difficulties = ["Easy", "Medium", "Hard"];
+const allCandidates = 0b1111111110;
+const millisecondsPerDay = 24 * 60 * 60 * 1000;
+
+const getBoxIndex = (row, col) => Math.floor(row / 3) * 3 + Math.floor(col / 3);
+
+/**
+ * Solves a board by backtracking, always filling the empty cell with the fewest
+ * candidates first.
+ *
+ * @param {number[][]} board - A 9x9 board where 0 represents an empty cell
+ * @returns {number[][] | null} The solved board, or null if the board has no solution
+ */
+const solveBoard = (board) => {
+  const solution = board.map((row) => [...row]);
+  const rows = Array(9).fill(0);
+  const cols = Array(9).fill(0);
+  const boxes = Array(9).fill(0);
+  for (let row = 0; row < 9; row++) {
+    for (let col = 0; col < 9; col++) {
+      const value = solution[row][col];
+      if (!value) continue;
+      const bit = 1 << value;
+      const box = getBoxIndex(row, col);
+      if (rows[row] & bit || cols[col] & bit || boxes[box] & bit) return null;
+      rows[row] |= bit;
+      cols[col] |= bit;
+      boxes[box] |= bit;
+    }
+  }
+
+  const search = () => {
+    let bestCell = null;
+    let bestCandidates = 0;
+    let bestCount = 10;
+    for (let row = 0; row < 9; row++) {
+      for (let col = 0; col < 9; col++) {
+        if (solution[row][col]) continue;
+        const candidates =
+          allCandidates &
+          ~(rows[row] | cols[col] | boxes[getBoxIndex(row, col)]);
+        let count = 0;
+        for (let bits = candidates; bits; bits &= bits - 1) count++;
+        if (count < bestCount) {
+          bestCell = { row, col };
+          bestCandidates = candidates;
+          bestCount = count;
+        }
+      }
+    }
+    if (!bestCell) return true;
+
+    const { row, col } = bestCell;
+    const box = getBoxIndex(row, col);
+    for (let value = 1; value <= 9; value++) {
+      const bit = 1 << value;
+      if (!(bestCandidates & bit)) continue;
+      solution[row][col] = value;
+      rows[row] |= bit;
+      cols[col] |= bit;
+      boxes[box] |= bit;
+      if (search()) return true;
+      rows[row] &= ~bit;
+      cols[col] &= ~bit;
+      boxes[box] &= ~bit;
+    }
+    solution[row][col] = 0;
+    return false;
+  };
+
+  return search() ? solution : null;
+};
+
+const solutions = new Map();
+
+/**
+ * Retrieves the solution of a bundled puzzle, solving it on first use.
+ */
+const getSolution = (puzzle) => {
+  if (!solutions.has(puzzle.id)) {
+    solutions.set(puzzle.id, solveBoard(puzzle.value));
+  }
+  return solutions.get(puzzle.id);
+};
+
+const isBoard = (board) =>
+  Array.isArray(board) &&
+  board.length === 9 &&
+  board.every(
+    (row) =>
+      Array.isArray(row) &&
+      row.length === 9 &&
+      row.every((value) => Number.isInteger(value) && value >= 0 && value <= 9)
+  );
+
+const toBoardResponse = ({ id, value, difficulty }) => ({
+  id,
+  value,
+  difficulty,
+});
+
+/**
+ * Creates a router that mimics the Waffle Sudoku backend using the bundled puzzle set,
+ * so the game can be developed and tested without the live API.
+ *
+ * Endpoints:
+ * - GET /random - A random puzzle of any difficulty
+ * - GET /daily?difficulty= - Today's puzzle for Easy, Medium or Hard
+ * - POST /hint - The value of the first empty cell of { boardID, board }
+ * - POST /solve - Whether { boardID, board } matches the solution
+ *
+ * @returns {express.Router} The mock API router
+ */
+const createMockAPI = () => {
+  const router = express.Router();
+
+  router.use(express.json());
+
+  router.get("/random", (req, res) => {
+    const puzzle = puzzles[Math.floor(Math.random() * puzzles.length)];
+    res.json(toBoardResponse(puzzle));
+  });
+
+  router.get("/daily", (req, res) => {
+    const { difficulty } = req.query;
+    if (!difficulties.includes(difficulty)) {
+      res.status(400).json({ message: "Invalid difficulty" });
+      return;
+    }
+    const dailyPuzzles = puzzles.filter(
+      (puzzle) => puzzle.difficulty === difficulty
+    );
+    const day = Math.floor(Date.now() / millisecondsPerDay);
+    res.json(toBoardResponse(dailyPuzzles[day % dailyPuzzles.length]));
+  });
+
+  // Finds the bundled puzzle a hint or solve request refers to
+  const findRequestedPuzzle = (req, res) => {
+    const { boardID, board } = req.body ?? {};
+    if (!isBoard(board)) {
+      res.status(400).json({ message: "Invalid board" });
+      return null;
+    }
+    const puzzle = puzzles.find((candidate) => candidate.id === boardID);
+    if (!puzzle) {
+      res.status(404).json({ message: "Board not found" });
+      return null;
+    }
+    return { board, solution: getSolution(puzzle) };
+  };
+
+  router.post("/hint", (req, res) => {
+    const requested = findRequestedPuzzle(req, res);
+    if (!requested) return;
+    const { board, solution } = requested;
+    const emptyCellIndex = board.flat().indexOf(0);
+    if (emptyCellIndex === -1) {
+      res.status(400).json({ message: "Board has no empty cells" });
+      return;
+    }
+    const row = Math.floor(emptyCellIndex / 9);
+    const col = emptyCellIndex % 9;
+    res.json({
+      parentCellIndex: row,
+      innerCellIndex: col,
+      hint: solution[row][col],
+    });
+  });
+
+  router.post("/solve", (req, res) => {
+    const requested = findRequestedPuzzle(req, res);
+    if (!requested) return;
+    const { board, solution } = requested;
+    const solved = board.every((row, rowIndex) =>
+      row.every((value, colIndex) => value === solution[rowIndex][colIndex])
+    );
+    if (!solved) {
+      res.status(400).json({ message: "Board not solved", board: null });
+      return;
+    }
+    res.json({ message: "Board solved", board: solution });
+  });
+
+  return router;
+};
+
+module.exports = { createMockAPI, solveBoard };
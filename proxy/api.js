@@ -0,0 +1,118 @@
+const express = require("express");
+
+// The difficulties the backend has daily puzzles for. Other values are forwarded uncached,
+// so the cache can't be grown by requesting made-up difficulties.
+const difficulties = ["Easy", "Medium", "Hard"];
+
+/**
+ * Returns today's date (UTC) as a key for the daily puzzle cache, such as "2025-05-01".
+ */
+const getDayKey = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Creates a router that forwards requests to the backend API, so the browser only
+ * talks to its own origin.
+ *
+ * Responses to GET /daily are cached in memory per known difficulty until the day (UTC)
+ * rolls over, and simultaneous requests for the same daily puzzle share one upstream request.
+ *
+ * @param {object} options
+ * @param {string} options.upstream - The base URL of the backend API
+ * @param {number} options.timeout - How long to wait for the backend, in milliseconds
+ * @returns {express.Router} The proxy router
+ */
+const createAPIProxy = ({ upstream, timeout }) => {
+  const router = express.Router();
+  const upstreamURL = upstream.replace(/\/+$/, "");
+  // Daily responses by difficulty, as { day, response } or { day, pending }
+  const dailyCache = new Map();
+
+  /**
+   * Sends a request to the backend and reads the whole response.
+   *
+   * @returns {Promise<{ status: number, contentType: string | null, body: Buffer }>}
+   */
+  const forwardRequest = async (req) => {
+    const hasBody = req.method !== "GET" && req.method !== "HEAD";
+    const contentType = hasBody ? req.get("Content-Type") : undefined;
+    const response = await fetch(`${upstreamURL}${req.url}`, {
+      method: req.method,
+      headers: {
+        Accept: req.get("Accept") ?? "application/json",
+        ...(contentType && { "Content-Type": contentType }),
+      },
+      body:
+        hasBody && Buffer.isBuffer(req.body) && req.body.length > 0
+          ? req.body
+          : undefined,
+      signal: AbortSignal.timeout(timeout),
+    });
+    return {
+      status: response.status,
+      contentType: response.headers.get("Content-Type"),
+      body: Buffer.from(await response.arrayBuffer()),
+    };
+  };
+
+  /**
+   * Fetches the daily puzzle for a difficulty, from the cache if it is from today.
+   */
+  const getDailyResponse = (req, difficulty) => {
+    const day = getDayKey();
+    const cached = dailyCache.get(difficulty);
+    if (cached?.day === day) {
+      return cached.response
+        ? { response: Promise.resolve(cached.response), hit: true }
+        : { response: cached.pending, hit: true };
+    }
+
+    const pending = forwardRequest(req).then(
+      (response) => {
+        // Only successful responses are kept, so errors are retried on the next request
+        if (response.status === 200)
+          dailyCache.set(difficulty, { day, response });
+        else dailyCache.delete(difficulty);
+        return response;
+      },
+      (error) => {
+        dailyCache.delete(difficulty);
+        throw error;
+      }
+    );
+    dailyCache.set(difficulty, { day, pending });
+    return { response: pending, hit: false };
+  };
+
+  router.use(express.raw({ type: "*/*", limit: "100kb" }));
+
+  router.use(async (req, res) => {
+    const difficulty = req.query.difficulty;
+    const isDailyRequest =
+      req.method === "GET" &&
+      req.path === "/daily" &&
+      difficulties.includes(difficulty);
+    try {
+      const { response, hit } = isDailyRequest
+        ? getDailyResponse(req, difficulty)
+        : { response: forwardRequest(req), hit: false };
+      const { status, contentType, body } = await response;
+      res.status(status);
+      res.set("Cache-Control", "no-store");
+      if (contentType) res.set("Content-Type", contentType);
+      if (isDailyRequest) res.set("X-Cache", hit ? "HIT" : "MISS");
+      res.send(body);
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === "TimeoutError";
+      console.error("Error proxying API request:", req.method, req.url, error);
+      res.status(timedOut ? 504 : 502).json({
+        message: timedOut
+          ? "The backend took too long to respond"
+          : "The backend couldn't be reached",
+      });
+    }
+  });
+
+  return router;
+};
+
+module.exports = { createAPIProxy };
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import {
+  calculateStreaks,
+  findDailyCompletion,
+  getDailyDate,
+} from "../utils/dailies";
+import { difficultyOrder } from "../utils/solver";
+import { formatTime } from "../utils/time";
+import type { DailyCompletion } from "../utils/dailies";
+import "./DailyCalendar.css";
+
+interface DailyCalendarProps {
+  completions: DailyCompletion[];
+  onClose: () => void;
+}
+
+interface CalendarMonth {
+  year: number;
+  month: number;
+}
+
+const weekdays = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/**
+ * Gets the month containing a daily date.
+ *
+ * @param date - The daily date, as YYYY-MM-DD
+ */
+const getCalendarMonth = (date: string): CalendarMonth => ({
+  year: Number(date.slice(0, 4)),
+  month: Number(date.slice(5, 7)) - 1,
+});
+
+/**
+ * Gets the daily dates of every day in a month, padded with nulls at the start so that
+ * the first day falls under the right weekday.
+ *
+ * @param calendarMonth - The month to lay out
+ */
+const getCalendarDays = ({ year, month }: CalendarMonth) => {
+  const firstDay = new Date(Date.UTC(year, month, 1));
+  const dayCount = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  // getUTCDay starts the week on Sunday, while the calendar starts on Monday
+  const leadingBlanks = (firstDay.getUTCDay() + 6) % 7;
+  return [
+    ...Array<null>(leadingBlanks).fill(null),
+    ...Array.from({ length: dayCount }, (_, index) =>
+      getDailyDate(new Date(Date.UTC(year, month, index + 1)))
+    ),
+  ];
+};
+
+/**
+ * Shows a month at a time of which daily puzzles the player has solved, with a marker
+ * per difficulty on each day, along with their current and longest streaks.
+ *
+ * @param completions - The player's daily completions
+ * @param onClose - Called when the player leaves the calendar
+ */
+const DailyCalendar = ({ completions, onClose }: DailyCalendarProps) => {
+  const today = getDailyDate();
+  const currentMonth = getCalendarMonth(today);
+  const [shownMonth, setShownMonth] = useState(currentMonth);
+  const streaks = calculateStreaks(completions, today);
+  const isCurrentMonth =
+    shownMonth.year === currentMonth.year &&
+    shownMonth.month === currentMonth.month;
+
+  const changeMonth = (offset: number) => {
+    const date = new Date(Date.UTC(shownMonth.year, shownMonth.month + offset));
+    setShownMonth({ year: date.getUTCFullYear(), month: date.getUTCMonth() });
+  };
+
+  return (
+    <>
+      <h1>Daily Calendar</h1>
+      <div className="calendar-streaks">
+        <div>
+          <p>{streaks.current}</p>
+          <p>Current Streak</p>
+        </div>
+        <div>
+          <p>{streaks.longest}</p>
+          <p>Longest Streak</p>
+        </div>
+      </div>
+      <div className="calendar-header">
+        <button
+          className="calendar-nav"
+          aria-label="Previous month"
+          onClick={() => changeMonth(-1)}
+        >
+          ‹
+        </button>
+        <h2>
+          {new Date(
+            Date.UTC(shownMonth.year, shownMonth.month)
+          ).toLocaleDateString(undefined, {
+            month: "long",
+            year: "numeric",
+            timeZone: "UTC",
+          })}
+        </h2>
+        <button
+          className="calendar-nav"
+          aria-label="Next month"
+          disabled={isCurrentMonth}
+          onClick={() => changeMonth(1)}
+        >
+          ›
+        </button>
+      </div>
+      <div className="calendar-grid">
+        {weekdays.map((weekday) => (
+          <div key={weekday} className="calendar-weekday">
+            {weekday}
+          </div>
+        ))}
+        {getCalendarDays(shownMonth).map((date, index) => {
+          if (!date) return <div key={`blank-${index}`} />;
+          const dayCompletions = difficultyOrder.flatMap(
+            (difficulty) =>
+              findDailyCompletion(completions, date, difficulty) ?? []
+          );
+          return (
+            <div
+              key={date}
+              className="calendar-day"
+              data-today={date === today || undefined}
+              data-solved={dayCompletions.length > 0 || undefined}
+              title={dayCompletions
+                .map(
+                  (completion) =>
+                    `${completion.difficulty}: ${formatTime(completion.time)}`
+                )
+                .join("\n")}
+            >
+              <span>{Number(date.slice(8))}</span>
+              <span className="calendar-markers">
+                {dayCompletions.map((completion) => (
+                  <span
+                    key={completion.difficulty}
+                    className="calendar-marker"
+                    data-difficulty={completion.difficulty}
+                  />
+                ))}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="calendar-legend">
+        {difficultyOrder.map((difficulty) => (
+          <span key={difficulty}>
+            <span className="calendar-marker" data-difficulty={difficulty} />
+            {difficulty}
+          </span>
+        ))}
+      </div>
+      <button className="input-button start-button" onClick={onClose}>
+        Back
+      </button>
+    </>
+  );
+};
+
+export default DailyCalendar;
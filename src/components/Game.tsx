@@ -2,52 +2,187 @@ import { useEffect, useRef, useState } from "react";
 import {
   EraserIcon,
   UndoIcon,
+  RedoIcon,
   ResetIcon,
   HintIcon,
   ExitIcon,
   RandomIcon,
+  PencilIcon,
+  PauseIcon,
+  PlayIcon,
 } from "./SVGs";
+import DailyCalendar from "./DailyCalendar";
+import Replay from "./Replay";
+import Settings from "./Settings";
+import Stats from "./Stats";
+import Toasts from "./Toasts";
+import {
+  fetchDailyBoard,
+  fetchHint,
+  fetchRandomBoard,
+  isUnreachableError,
+  submitSolution,
+} from "../utils/api";
+import {
+  createBoard,
+  createEmptyBoard,
+  describeCell,
+  fillPlayerEntries,
+  formatCellPosition,
+  getBoardNotes,
+  getBoardValues,
+  getCellHighlight,
+  isBoardComplete,
+  recordPlayerAction,
+  restorePlayerAction,
+  setCellValue,
+  toggleCellNote,
+} from "../utils/board";
+import {
+  findCageIndex,
+  getCageCombinations,
+  getCageErrors,
+  getCageLabelCell,
+} from "../utils/cages";
+import {
+  calculateStreaks,
+  findDailyCompletion,
+  getDailyDate,
+  loadDailyCompletions,
+  recordDailyCompletion,
+} from "../utils/dailies";
+import { downloadFile } from "../utils/download";
+import { focusFirstElement, trapFocus } from "../utils/focus";
+import { createPuzzleID, generatePuzzle } from "../utils/generator";
+import { describeStep, findLogicalHint } from "../utils/hints";
+import {
+  clearSavedGame,
+  loadSavedGame,
+  saveElapsedTime,
+  saveGame,
+} from "../utils/savedGame";
+import { loadGameRecords, recordGame } from "../utils/stats";
+import {
+  countSolutions,
+  difficultyOrder,
+  findUniqueSolution,
+  gradeBoard,
+  isBoardSolved,
+  isBoardValid,
+  isCellInHouse,
+  solveBoard,
+} from "../utils/solver";
+import {
+  parsePuzzle,
+  toCageString,
+  toKillerJSON,
+  toPuzzleString,
+  toSaveJSON,
+  toSDK,
+  toSimpleSudoku,
+} from "../utils/puzzleFormats";
+import { formatRoute, getCurrentRoute, navigate } from "../utils/routes";
+import {
+  defaultSettings,
+  loadSettings,
+  resolveTheme,
+  saveSettings,
+} from "../utils/settings";
+import { shareResultImage, shareResultText } from "../utils/share";
+import { formatTime } from "../utils/time";
+import {
+  constraints,
+  isInVariantRegion,
+  variantOrder,
+} from "../utils/variants";
+import type { GameBoardAPIResponse, HintAPIResponse } from "../utils/api";
+import type { GameBoard, PlayerAction } from "../utils/board";
+import type { Cage } from "../utils/cages";
+import type { DailyCompletion } from "../utils/dailies";
+import type { Replay as ReplayData, ReplayEvent } from "../utils/replay";
+import type { Board, CellPosition, Difficulty, House } from "../utils/solver";
+import type { Route } from "../utils/routes";
+import type { SavedGame } from "../utils/savedGame";
+import type { Settings as SettingsData } from "../utils/settings";
+import type { ShareOutcome, ShareResult } from "../utils/share";
+import type { GameRecord } from "../utils/stats";
+import type { Variant } from "../utils/variants";
+import type { Toast, ToastAction, ToastType } from "./Toasts";
 import "./Game.css";
 
-interface PlayerAction {
-  cell: HTMLButtonElement;
-  value: number | null;
-}
-
-interface SolveAPIResponse {
-  message: string;
-  board: number[][] | null;
-}
-
-interface GameBoardAPIResponse {
-  id: number;
-  value: number[][];
-  difficulty: string | null;
-}
-
-interface HintAPIResponse {
-  parentCellIndex: number;
-  innerCellIndex: number;
-  hint: number;
+// The overlays shown over the board, of which at most one is open at a time
+type OverlayName =
+  | "loading"
+  | "start"
+  | "game-finished"
+  | "how-to-play"
+  | "paused"
+  | "game-over"
+  | "stats"
+  | "calendar"
+  | "replay"
+  | "settings";
+
+interface HintExplanation {
+  cell: CellPosition;
+  summary: string;
+  steps: string[];
+  houses: House[];
 }
 
 const Game = () => {
-  const baseAPIURL = "https://waffle-api.philipwhite.dev";
-  const defaultStarterHints = 5;
+  const toastDuration = 6000;
+  const maxMistakes = 3;
 
   const [boardID, setBoardID] = useState<number>(0);
   const [difficulty, setDifficulty] = useState<string>("");
-  const [unsolvedBoard, setUnsolvedBoard] = useState<number[][]>([]);
-  const [selectedCell, setSelectedCell] = useState<HTMLButtonElement | null>(
-    null
-  );
+  const [variant, setVariant] = useState<Variant>("classic");
+  const [cages, setCages] = useState<Cage[]>([]);
+  const [board, setBoard] = useState<GameBoard>(createEmptyBoard);
+  const [selectedCell, setSelectedCell] = useState<CellPosition | null>(null);
   const [actionHistory, setActionHistory] = useState<PlayerAction[]>([]);
+  const [redoHistory, setRedoHistory] = useState<PlayerAction[]>([]);
   const [timer, setTimer] = useState(0);
-  const [hintCount, setHintCount] = useState(defaultStarterHints);
+  const [hintCount, setHintCount] = useState(defaultSettings.hintAllowance);
+  const [hintAllowance, setHintAllowance] = useState(
+    defaultSettings.hintAllowance
+  );
   const [gameFinished, setGameFinished] = useState(true);
   const [timeStarted, setTimeStarted] = useState<Date | null>(null);
   const [timeFinished, setTimeFinished] = useState<Date | null>(null);
   const [obtainingHint, setObtainingHint] = useState(false);
+  const [pendingHintCell, setPendingHintCell] = useState<CellPosition | null>(
+    null
+  );
+  const [pausedAt, setPausedAt] = useState<Date | null>(null);
+  const [isOfflineBoard, setIsOfflineBoard] = useState(false);
+  const [hintExplanation, setHintExplanation] =
+    useState<HintExplanation | null>(null);
+  const [notesMode, setNotesMode] = useState(false);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(loadSavedGame);
+  const [solution, setSolution] = useState<number[][] | null>(null);
+  const [mistakes, setMistakes] = useState(0);
+  const [livesMode, setLivesMode] = useState(false);
+  // The lives mode chosen on the start overlay for new games, which resuming a game doesn't change
+  const [livesModeChoice, setLivesModeChoice] = useState(false);
+  const [undoCount, setUndoCount] = useState(0);
+  const [gameRecords, setGameRecords] = useState<GameRecord[]>(loadGameRecords);
+  const [dailyDate, setDailyDate] = useState<string | null>(null);
+  const [hintedCells, setHintedCells] = useState<CellPosition[]>([]);
+  const [importText, setImportText] = useState("");
+  const [creatingPuzzle, setCreatingPuzzle] = useState(false);
+  const [replayEvents, setReplayEvents] = useState<ReplayEvent[]>([]);
+  const [replayViewer, setReplayViewer] = useState<{
+    replay: ReplayData;
+    returnTo: "finished" | "start";
+    openedAt: number;
+  } | null>(null);
+  const [dailyCompletions, setDailyCompletions] =
+    useState<DailyCompletion[]>(loadDailyCompletions);
+  const [rejectedBoard, setRejectedBoard] = useState<GameBoard | null>(null);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [announcement, setAnnouncement] = useState("");
+  const [settings, setSettings] = useState<SettingsData>(loadSettings);
 
   const hintCounterRef = useRef<HTMLDivElement>(null);
   const overlayRef = useRef<HTMLDivElement>(null);
@@ -55,42 +190,100 @@ const Game = () => {
   const startOverlayRef = useRef<HTMLDivElement>(null);
   const gameFinishedOverlayRef = useRef<HTMLDivElement>(null);
   const howToPlayOverlayRef = useRef<HTMLDivElement>(null);
+  const pausedOverlayRef = useRef<HTMLDivElement>(null);
+  const gameOverOverlayRef = useRef<HTMLDivElement>(null);
+  const statsOverlayRef = useRef<HTMLDivElement>(null);
+  const calendarOverlayRef = useRef<HTMLDivElement>(null);
+  const replayOverlayRef = useRef<HTMLDivElement>(null);
+  const settingsOverlayRef = useRef<HTMLDivElement>(null);
+  const toastsRef = useRef<HTMLDivElement>(null);
+  const openOverlayRef = useRef<HTMLElement | null>(null);
+  const cellButtonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  // Conflicts are always shown while creating a puzzle, so typing mistakes can be fixed
+  const showConflicts = settings.showConflicts || creatingPuzzle;
+  const nextToastIDRef = useRef(0);
+  const initialRouteOpenedRef = useRef(false);
+  // Identifies the board being loaded, so a board that arrives after the player has left
+  // or started another game is dropped
+  const boardRequestIDRef = useRef(0);
 
   /**
    * Handles the click event on a cell button.
    *
-   * @param e - The React mouse event from the clicked button
-   * @remarks This function passes the clicked button element to the selectInnerCell function
+   * @param row - The row index (0-8) of the clicked cell
+   * @param col - The column index (0-8) of the clicked cell
+   * @remarks Highlighting of the selected cell and its related cells is derived from the selection when rendering
    */
-  const handleCellClick = (e: React.MouseEvent<HTMLButtonElement>) => {
-    selectInnerCell(e.currentTarget);
+  const handleCellClick = (row: number, col: number) => {
+    setSelectedCell({ row, col });
   };
 
   /**
    * Handles the undo action in the game.
    *
-   * Reverts the last action performed by restoring the previous value of the cell,
-   * removing any error indicators, and updating the selection state.
+   * Reverts the last action performed by restoring the previous value of the cell
+   * and the notes on the board, and updating the selection state. The state being
+   * replaced is pushed onto the redo history so the action can be re-applied.
    *
    * If there's a previous action in the history after undoing, the cell from that action
-   * will be selected. Otherwise, board highlighting is cleared and no cell is selected.
+   * will be selected. Otherwise, no cell is selected.
    */
   const handleUndoAction = () => {
     if (actionHistory.length > 0) {
       const lastAction = actionHistory[actionHistory.length - 1];
-      const cell = lastAction.cell;
-      const value = lastAction.value;
+      const { row, col } = lastAction;
 
-      if (cell && !cell.hasAttribute("data-locked")) {
-        cell.innerText = value ? value.toString() : "";
+      if (!board[row][col].locked) {
+        setRedoHistory((prevRedoHistory) => [
+          ...prevRedoHistory,
+          recordPlayerAction(board, row, col),
+        ]);
+        const restoredBoard = restorePlayerAction(board, lastAction, variant);
+        setBoard(restoredBoard);
         setActionHistory((prevHistory) => prevHistory.slice(0, -1));
-        selectInnerCell(cell);
-        if (actionHistory[actionHistory.length - 2]) {
-          selectInnerCell(actionHistory[actionHistory.length - 2].cell);
-        } else {
-          clearBoardHighlighting(true);
-          setSelectedCell(null);
-        }
+        recordReplayEvent("undo", { row, col });
+        announce(
+          `Undo. ${describeCell(restoredBoard, row, col, showConflicts)}`
+        );
+        setUndoCount((prevUndoCount) => prevUndoCount + 1);
+        const previousAction = actionHistory[actionHistory.length - 2];
+        setSelectedCell(
+          previousAction
+            ? { row: previousAction.row, col: previousAction.col }
+            : null
+        );
+      }
+    }
+  };
+
+  /**
+   * Handles the redo action in the game.
+   *
+   * Re-applies the most recently undone action by restoring the value of the cell and
+   * the notes on the board as they were before the undo. The state being replaced is
+   * pushed back onto the action history so the redo itself can be undone.
+   *
+   * The redo history is cleared whenever a new move is made.
+   */
+  const handleRedoAction = () => {
+    if (redoHistory.length > 0) {
+      const nextAction = redoHistory[redoHistory.length - 1];
+      const { row, col } = nextAction;
+
+      if (!board[row][col].locked) {
+        setActionHistory((prevHistory) => [
+          ...prevHistory,
+          recordPlayerAction(board, row, col),
+        ]);
+        const restoredBoard = restorePlayerAction(board, nextAction, variant);
+        setBoard(restoredBoard);
+        setRedoHistory((prevRedoHistory) => prevRedoHistory.slice(0, -1));
+        recordReplayEvent("redo", { row, col });
+        announce(
+          `Redo. ${describeCell(restoredBoard, row, col, showConflicts)}`
+        );
+        setSelectedCell({ row, col });
       }
     }
   };
@@ -101,57 +294,434 @@ const Game = () => {
    * @param number - The number to enter in the selected cell (0 represents clearing the cell)
    *
    * @remarks
+   * - While creating a puzzle, the number is entered as a given: notes and mistakes don't apply
+   * - In notes mode, toggles the number as a candidate note on an empty cell instead
    * - Updates the selected cell with the new number if the cell is not locked
    * - Only updates if the number is different from the current value
-   * - Adds the previous state to action history for undo functionality
-   * - Checks if the board is complete after each input
-   * - Triggers game completion flow when the board is filled correctly
-   *
-   * @requires selectedCell - A HTML Button element reference to the currently selected cell
-   * @requires setActionHistory - State setter function for tracking changes
-   * @requires selectInnerCell - Function to handle cell selection UI
-   * @requires configureOverlay - Function to control the game overlay
-   * @requires handleGameFinish - Function to process game completion
+   * - Clears the notes of the cell and, if turned on in the settings, removes the number
+   *   from the notes of its peers
+   * - Counts a mistake if the number conflicts with another cell or, when the solution
+   *   is known, doesn't match it (see registerMistake). Mistakes aren't counted or
+   *   announced while conflicts are hidden by the settings, unless lives mode is on.
+   * - Adds the previous state to action history for undo functionality and clears the redo history
+   * - Records the move for the replay (see recordReplayEvent) and announces it to screen readers
+   * - Completion of the board is detected by the board completion effect
    */
   const handleNumberInput = (number: number) => {
-    if (selectedCell && !selectedCell.hasAttribute("data-locked")) {
-      const previousValue = selectedCell.innerText
-        ? parseInt(selectedCell.innerText)
-        : null;
+    if (!selectedCell) return;
+    const { row, col } = selectedCell;
+    const cell = board[row][col];
+    if (cell.locked) return;
+
+    if (notesMode && number !== 0 && !creatingPuzzle) {
+      if (cell.value) return;
+      setActionHistory((prevHistory) => [
+        ...prevHistory,
+        recordPlayerAction(board, row, col),
+      ]);
+      setRedoHistory([]);
+      setHintExplanation(null);
+      const updatedBoard = toggleCellNote(board, row, col, number);
+      setBoard(updatedBoard);
+      recordReplayEvent("note", { row, col }, number);
+      announce(
+        `${formatCellPosition(row, col)}: note ${number} ${
+          updatedBoard[row][col].notes.includes(number) ? "added" : "removed"
+        }`
+      );
+      return;
+    }
 
-      if (previousValue !== number) {
-        setActionHistory((prevHistory) => [
-          ...prevHistory,
-          { cell: selectedCell, value: previousValue },
-        ]);
-        selectedCell.innerText = number === 0 ? "" : number.toString();
+    if (cell.value !== number || cell.notes.length > 0) {
+      setActionHistory((prevHistory) => [
+        ...prevHistory,
+        recordPlayerAction(board, row, col),
+      ]);
+      setRedoHistory([]);
+      setHintExplanation(null);
+      const updatedBoard = setCellValue(
+        board,
+        row,
+        col,
+        number,
+        false,
+        settings.autoRemoveNotes,
+        variant
+      );
+      setBoard(updatedBoard);
+      // The givens of a puzzle being created are part of the puzzle, not moves
+      if (!creatingPuzzle) recordReplayEvent("value", { row, col }, number);
+      const hasConflict =
+        updatedBoard[row][col].error ||
+        getCageErrors(getBoardValues(updatedBoard), cages)[row][col];
+      const isConflict = hasConflict && showConflicts;
+      // Counting mistakes would give away what hiding conflicts hides, so they're only
+      // counted while conflicts are shown, or in lives mode where they cost a life
+      const isMistake =
+        number !== 0 &&
+        !creatingPuzzle &&
+        (showConflicts || livesMode) &&
+        (hasConflict || (solution !== null && solution[row][col] !== number));
+      announce(
+        `${formatCellPosition(row, col)}: ${number || "erased"}${
+          isConflict ? ", conflicts with another cell" : ""
+        }${isMistake && !isConflict ? ", mistake" : ""}`
+      );
+      if (isMistake) registerMistake();
+    }
+  };
+
+  /**
+   * Reads a message out to screen reader users through the live region below the board.
+   *
+   * @param message - The message to read out
+   * @remarks A message that is the same as the last one is changed slightly so it is read out again.
+   */
+  const announce = (message: string) => {
+    setAnnouncement((prevAnnouncement) =>
+      prevAnnouncement === message ? `${message}\u00a0` : message
+    );
+  };
+
+  /**
+   * Records a move for the replay of the game, with the time since the game started and the
+   * auto-remove-notes setting it was played with.
+   *
+   * @param type - The kind of move
+   * @param cell - The cell the move was made in, which is left out when resetting the board
+   * @param value - The number placed, noted or hinted, or 0 for erasing, undoing and redoing
+   */
+  const recordReplayEvent = (
+    type: ReplayEvent["type"],
+    cell?: CellPosition,
+    value: number = 0
+  ) => {
+    const time = Date.now() - (timeStarted?.getTime() || Date.now());
+    const event: ReplayEvent =
+      type === "reset" || !cell
+        ? { type: "reset", time }
+        : {
+            type,
+            time,
+            row: cell.row,
+            col: cell.col,
+            value,
+            removePeerNotes: settings.autoRemoveNotes,
+          };
+    setReplayEvents((prevReplayEvents) => [...prevReplayEvents, event]);
+  };
+
+  /**
+   * Counts a mistake and, in lives mode, ends the game once the player runs out of lives.
+   *
+   * @remarks
+   * Undoing a mistake doesn't give the life back.
+   */
+  const registerMistake = () => {
+    const updatedMistakes = mistakes + 1;
+    setMistakes(updatedMistakes);
+    if (livesMode && updatedMistakes >= maxMistakes) {
+      handleGameOver(updatedMistakes);
+    }
+  };
+
+  /**
+   * Ends the game after the player runs out of lives.
+   *
+   * Stops the timer, records the loss in the player's statistics, discards the saved game
+   * (so it can't be continued to get the lives back) and shows the game over overlay.
+   *
+   * @param mistakeCount - The number of mistakes made, including the one that ended the game
+   */
+  const handleGameOver = (mistakeCount: number) => {
+    const finishedAt = new Date();
+    setTimeFinished(finishedAt);
+    setGameFinished(true);
+    recordCompletedGame(false, finishedAt, mistakeCount);
+    clearSavedGame();
+    setSavedGame(null);
+    announce(`Game over. You've made ${maxMistakes} mistakes.`);
+    manageOverlayVisibility("game-over");
+  };
+
+  /**
+   * Adds the current game to the player's statistics, and marks the daily puzzle as
+   * solved if the game was a daily challenge that was won.
+   *
+   * @param won - Whether the board was solved, rather than lost by running out of lives
+   * @param finishedAt - When the game ended
+   * @param mistakeCount - The number of mistakes made. Defaults to the mistakes counted so
+   *                       far, which don't yet include one counted in the same update.
+   */
+  const recordCompletedGame = (
+    won: boolean,
+    finishedAt: Date,
+    mistakeCount: number = mistakes
+  ) => {
+    const time = Math.floor(
+      (finishedAt.getTime() - (timeStarted?.getTime() || 0)) / 1000
+    );
+    if (won && dailyDate) {
+      setDailyCompletions(
+        recordDailyCompletion({ date: dailyDate, difficulty, boardID, time })
+      );
+    }
+    setGameRecords(
+      recordGame({
+        boardID,
+        difficulty,
+        completedAt: finishedAt.toISOString(),
+        time,
+        won,
+        hintsUsed: hintAllowance - hintCount,
+        undoCount,
+        mistakes: mistakeCount,
+        offline: isOfflineBoard,
+        variant,
+      })
+    );
+  };
+
+  /**
+   * Captures the game in progress in the form it is saved in.
+   */
+  const getCurrentGame = (): SavedGame => ({
+    boardID,
+    difficulty,
+    unsolvedBoard: getBoardValues(board, false),
+    board: getBoardValues(board),
+    notes: getBoardNotes(board),
+    actionHistory,
+    hintCount,
+    hintAllowance,
+    elapsedTime: timer,
+    offline: isOfflineBoard,
+    mistakes,
+    livesMode,
+    undoCount,
+    dailyDate: dailyDate ?? undefined,
+    hintedCells,
+    route: getCurrentRoute() ?? undefined,
+    replayEvents,
+    variant,
+    cages: cages.length > 0 ? cages : undefined,
+  });
+
+  /**
+   * Gets the original givens of the puzzle being played, leaving out cells filled in by hints.
+   */
+  const getGivens = () =>
+    getBoardValues(board, false).map((rowValues, row) =>
+      rowValues.map((value, col) =>
+        hintedCells.some((cell) => cell.row === row && cell.col === col)
+          ? 0
+          : value
+      )
+    );
+
+  /**
+   * Changes the URL to the route of the game being started.
+   *
+   * @param route - The route of the game
+   *
+   * @remarks
+   * Routes that are resolved into a specific board, such as /random resolving to the grid
+   * of the board the server picked, are replaced rather than added to the history, so
+   * going back doesn't load yet another board. So are other spellings of the same route.
+   */
+  const navigateToGame = (route: Route) => {
+    const currentRoute = getCurrentRoute();
+    navigate(
+      route,
+      currentRoute?.name === "random" ||
+        currentRoute?.name === "play" ||
+        currentRoute?.name === "create" ||
+        (currentRoute !== null &&
+          formatRoute(currentRoute) === formatRoute(route))
+    );
+  };
+
+  /**
+   * Gets the route of a game played from its grid, which carries the cages of a Killer puzzle.
+   *
+   * @param grid - The givens of the puzzle
+   * @param gridVariant - The variant the puzzle is played as
+   * @param gridCages - The cages of a Killer puzzle. Defaults to none.
+   *
+   * @remarks
+   * A Killer puzzle with more cages than a link can name gets the start overlay's URL
+   * instead, as its grid alone couldn't be played.
+   */
+  const getPlayRoute = (
+    grid: Board,
+    gridVariant: Variant,
+    gridCages: Cage[] = []
+  ): Route => {
+    const cageText =
+      gridVariant === "killer" ? toCageString(gridCages) : undefined;
+    if (cageText === null) return { name: "home" };
+    return {
+      name: "play",
+      grid: toPuzzleString(grid),
+      variant: gridVariant,
+      cages: cageText,
+    };
+  };
+
+  /**
+   * Shows the start overlay, or one of the overlays opened from it, changing the URL to match.
+   *
+   * @param overlay - The overlay to show. Defaults to the start overlay.
+   */
+  const handleStartScreenOpen = (
+    overlay: "home" | "stats" | "calendar" | "how-to-play" | "settings" = "home"
+  ) => {
+    navigate({ name: overlay });
+    manageOverlayVisibility(overlay === "home" ? "start" : overlay);
+  };
+
+  /**
+   * Shows the screen or game for a URL, when the page is first loaded or the player
+   * navigates with the browser's back and forward buttons.
+   *
+   * @param route - The route of the URL, or null if it doesn't match one
+   *
+   * @remarks
+   * - Going back to the start overlay's URL leaves the game, keeping it saved
+   * - Game routes continue the saved game if it was started from the same route, and
+   *   otherwise start a new game. A daily saved on an earlier day is replaced by today's.
+   * - Starting a new game replaces the saved game, so the player is asked first. If they
+   *   decline, they're taken back to the game in progress, or to the start overlay where
+   *   the saved game can be continued.
+   * - Unknown URLs are replaced with the start overlay's URL
+   */
+  const openRoute = (route: Route | null) => {
+    boardRequestIDRef.current++;
+    if (!route) {
+      navigate({ name: "home" }, true);
+      return;
+    }
+    const gameInProgress = !gameFinished || creatingPuzzle;
+    const game = loadSavedGame();
+    const startsGame =
+      route.name === "daily" ||
+      route.name === "random" ||
+      route.name === "puzzle" ||
+      route.name === "play";
+    const isSavedGameRoute =
+      startsGame &&
+      game?.route &&
+      formatRoute(game.route) === formatRoute(route);
+    // Daily routes don't name their date, so a daily saved on an earlier day is
+    // discarded and today's puzzle is loaded instead
+    if (
+      game &&
+      isSavedGameRoute &&
+      route.name === "daily" &&
+      game.dailyDate !== getDailyDate()
+    ) {
+      clearSavedGame();
+      setSavedGame(null);
+      handleGameStart(route.difficulty);
+      return;
+    }
+    if (game && isSavedGameRoute) {
+      resumeGame(game);
+      return;
+    }
+    if (
+      game &&
+      startsGame &&
+      !window.confirm(
+        "Start a new game from this link? Your saved game will be replaced."
+      )
+    ) {
+      if (gameInProgress && !creatingPuzzle && game.route) {
+        navigate(game.route, true);
+        return;
+      }
+      navigate({ name: "home" }, true);
+      if (gameInProgress) {
+        exitGame();
+      } else {
+        manageOverlayVisibility("start");
       }
-      selectInnerCell(selectedCell);
+      return;
+    }
 
-      submitBoard();
+    switch (route.name) {
+      case "home":
+      case "stats":
+      case "calendar":
+      case "how-to-play":
+      case "settings":
+        if (gameInProgress) exitGame();
+        handleStartScreenOpen(route.name);
+        break;
+      case "daily":
+        handleGameStart(route.difficulty);
+        break;
+      case "random":
+        handleGameStart();
+        break;
+      case "create":
+        if (!creatingPuzzle) handleCreatePuzzle();
+        break;
+      case "puzzle":
+        handleOfflineGameStart(route.difficulty, route.id, route.variant);
+        break;
+      case "play":
+        handleImport(route.grid, route.variant, route.cages);
+        break;
     }
   };
 
   /**
-   * Handles the game exit action by resetting the game state to its initial values.
+   * Handles the exit button and Escape key by leaving the game and going back to the
+   * start overlay's URL.
+   */
+  const handleGameExit = () => {
+    navigate({ name: "home" });
+    exitGame();
+  };
+
+  /**
+   * Leaves the game by resetting the game state to its initial values.
    * This includes:
    * - Configuring the overlay
    * - Marking the game as finished
-   * - Resetting the timer and time tracking
-   * - Clearing the board ID, unsolved board, and difficulty settings
-   * - Filling the grid with zeros (9x9 empty grid)
+   * - Resetting the timer, time tracking and pause state
+   * - Clearing the board ID, board, selection, difficulty and variant settings
+   * - Leaving notes mode and puzzle creation, and clearing the undo/redo history, replay and mistakes
+   * - Dropping any board that is still loading
+   * - Refreshing the saved game so it can be continued from the start overlay
    */
-  const handleGameExit = () => {
-    manageOverlayVisibility(true, false, true);
-    clearBoardHighlighting(true);
+  const exitGame = () => {
+    boardRequestIDRef.current++;
+    manageOverlayVisibility("start");
     setSelectedCell(null);
+    setPendingHintCell(null);
     setGameFinished(true);
     setTimer(0);
     setTimeStarted(null);
+    setPausedAt(null);
     setBoardID(0);
-    setUnsolvedBoard([]);
+    setBoard(createEmptyBoard());
     setDifficulty("");
-    fillGrid(Array.from({ length: 9 }, () => Array(9).fill(0)));
+    setVariant("classic");
+    setCages([]);
+    setDailyDate(null);
+    setHintedCells([]);
+    setReplayEvents([]);
+    setCreatingPuzzle(false);
+    setNotesMode(false);
+    setActionHistory([]);
+    setRedoHistory([]);
+    setHintExplanation(null);
+    setSolution(null);
+    setMistakes(0);
+    setUndoCount(0);
+    setSavedGame(loadSavedGame());
   };
 
   /**
@@ -160,44 +730,81 @@ const Game = () => {
    * This function is triggered when a player finishes a game.
    * 1. Records the timestamp when the game was finished
    * 2. Updates the game state to finished
-   * 3. Sends the completed board data to the server for validation
+   * 3. Sends the completed board data to the server for validation, or checks it
+   *    locally for boards generated offline
    * 4. Handles the response:
-   *    - If successful, displays the success overlay
-   *    - If the board is incorrect, logs an error message
+   *    - If successful, records the game in the player's statistics, displays the success
+   *      overlay and discards the saved game
+   *    - If the board is incorrect or can't be checked, tells the player and returns
+   *      them to the board so they can keep playing
    *
    * @remarks
    * This function makes an API call to the backend for board validation.
    */
   const handleGameFinish = () => {
-    setTimeFinished(new Date());
+    const finishedAt = new Date();
+    setTimeFinished(finishedAt);
     setGameFinished(true);
-    fetch(`${baseAPIURL}/solve`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        boardID: boardID,
-        board: getBoardState(),
-      }),
-    })
-      .then((response) => {
-        if (response.ok) {
-          manageOverlayVisibility(true, false, false, true);
-          return;
-        }
-        return response.json();
-      })
-      .then((responseJSON: SolveAPIResponse) => {
-        if (responseJSON && responseJSON.message === "Board not solved") {
+    const finishedBoard = board;
+    const boardValues = getBoardValues(finishedBoard);
+    const validation: Promise<boolean> = isOfflineBoard
+      ? Promise.resolve(isBoardSolved(boardValues, variant, cages))
+      : submitSolution(boardID, boardValues).then((result) => {
+          if (!result.ok) throw new Error(result.error.message);
+          return result.data;
+        });
+
+    // The board isn't checked again until it changes, or the player asks to retry
+    const returnToBoard = () => {
+      setRejectedBoard(finishedBoard);
+      setTimeFinished(null);
+      setGameFinished(false);
+      manageOverlayVisibility(null);
+    };
+
+    validation
+      .then((solved) => {
+        if (!solved) {
           console.error("Board not solved");
+          returnToBoard();
+          showToast(
+            "Every cell is filled, but this isn't the solution. Keep looking for the mistake!"
+          );
+          return;
         }
+        recordCompletedGame(true, finishedAt);
+        clearSavedGame();
+        setSavedGame(null);
+        announce(
+          `Solved in ${formatTime(
+            Math.floor(
+              (finishedAt.getTime() - (timeStarted?.getTime() || 0)) / 1000
+            )
+          )}`
+        );
+        manageOverlayVisibility("game-finished");
       })
       .catch((error) => {
         console.error("Error:", error);
+        returnToBoard();
+        showToast("Couldn't check your board with the server.", "error", {
+          label: "Retry",
+          onClick: () => setRejectedBoard(null),
+        });
       });
   };
 
+  /**
+   * Tells the player that the board they've filled has conflicts, when conflicts are
+   * hidden by the settings. The board isn't checked again until it changes.
+   */
+  const handleHiddenConflicts = () => {
+    setRejectedBoard(board);
+    showToast(
+      "Every cell is filled, but some numbers clash. Keep looking for the mistake!"
+    );
+  };
+
   /**
    * Initiates a new game by resetting game state and fetching a new puzzle board.
    *
@@ -210,70 +817,473 @@ const Game = () => {
    *
    * @remarks
    * - Resets cell selection and board highlighting
-   * - Resets timer and game history
+   * - Resets timer, game history and notes
    * - Shows loading overlay
-   * - Fetches a new puzzle from the server
-   * - Updates the game state with the new puzzle data
+   * - Fetches a new puzzle from the server, remembering the date of daily puzzles so
+   *   solving them counts towards the player's streak
+   * - Falls back to generating a random board offline if the server can't be reached
+   * - Updates the game state with the new puzzle data, unless the player has left or
+   *   started another game while it loaded
    * - Hides the loading overlay
    */
-  const handleGameStart = (difficulty: string = "any") => {
+  const handleGameStart = (difficulty: Difficulty | "any" = "any") => {
+    navigateToGame(
+      difficulty === "any" ? { name: "random" } : { name: "daily", difficulty }
+    );
+    resetGameState();
+    manageOverlayVisibility("loading");
+    const requestID = boardRequestIDRef.current;
+    const requestedDailyDate = difficulty === "any" ? null : getDailyDate();
+    const boardRequest =
+      difficulty === "any" ? fetchRandomBoard() : fetchDailyBoard(difficulty);
+    boardRequest.then((result) => {
+      if (requestID !== boardRequestIDRef.current) return;
+      if (result.ok) {
+        // Random boards can't be fetched again, so link to their grid instead
+        if (difficulty === "any") {
+          navigateToGame({
+            name: "play",
+            grid: toPuzzleString(result.data.value),
+          });
+        }
+        setDailyDate(requestedDailyDate);
+        loadGameBoard(
+          result.data,
+          difficulty === "any" ? result.data.difficulty || "Err" : difficulty,
+          false
+        );
+        return;
+      }
+      const { message } = result.error;
+      if (difficulty === "any" && isUnreachableError(result.error)) {
+        console.warn("API unreachable, generating board offline:", message);
+        showToast(
+          "Couldn't reach the server, so this board was generated offline.",
+          "info"
+        );
+        handleOfflineGameStart();
+        return;
+      }
+      console.error("Error fetching board:", message);
+      navigate({ name: "home" }, true);
+      manageOverlayVisibility("start");
+      showToast(`Couldn't load the board: ${message}`, "error", {
+        label: "Retry",
+        onClick: () => handleGameStart(difficulty),
+      });
+    });
+  };
+
+  /**
+   * Initiates a new game with a board generated locally instead of fetched from the server.
+   *
+   * @param difficulty - The difficulty of the board to generate. Defaults to a random difficulty.
+   * @param puzzleID - The ID of the board to generate, which picks the same board every
+   *                   time for a difficulty. Defaults to a random ID.
+   * @param boardVariant - The variant whose extra rules the board follows. Defaults to classic.
+   *
+   * @remarks
+   * - Resets the game state and shows the loading overlay while the board is generated
+   * - The board isn't loaded if the player leaves or starts another game in the meantime
+   * - Generated boards have exactly one solution, so hints and validation are done locally
+   */
+  const handleOfflineGameStart = (
+    difficulty?: Difficulty,
+    puzzleID: number = createPuzzleID(),
+    boardVariant: Variant = "classic"
+  ) => {
+    const boardDifficulty =
+      difficulty ??
+      difficultyOrder[Math.floor(Math.random() * difficultyOrder.length)];
+    navigateToGame({
+      name: "puzzle",
+      id: puzzleID,
+      difficulty: boardDifficulty,
+      variant: boardVariant,
+    });
+    resetGameState();
+    manageOverlayVisibility("loading");
+    const requestID = boardRequestIDRef.current;
+    // Wait for the loading overlay to be painted, as generating can take a moment
+    requestAnimationFrame(() =>
+      setTimeout(() => {
+        if (requestID !== boardRequestIDRef.current) return;
+        const data = generatePuzzle(boardDifficulty, puzzleID, boardVariant);
+        loadGameBoard(
+          data,
+          data.difficulty || boardDifficulty,
+          true,
+          boardVariant,
+          data.cages
+        );
+      })
+    );
+  };
+
+  /**
+   * Resets the per-game state ahead of loading a new board.
+   *
+   * Clears the cell selection, timer, pause state, hinted cells, mistakes,
+   * hint explanation, daily date, puzzle creation, undo/redo history and replay, and
+   * gives the player the number of hints chosen in the settings and the lives mode
+   * chosen on the start overlay.
+   *
+   * The game is marked as finished until the new board is loaded, so the previous board
+   * isn't saved under the new game's URL in the meantime, and any board still loading
+   * for an earlier game is dropped.
+   */
+  const resetGameState = () => {
+    boardRequestIDRef.current++;
+    setGameFinished(true);
+    setDailyDate(null);
+    setHintedCells([]);
+    setReplayEvents([]);
+    setCreatingPuzzle(false);
     setSelectedCell(null);
-    clearBoardHighlighting(true);
-    setTimeStarted(new Date());
+    setPendingHintCell(null);
     setTimeFinished(null);
+    setPausedAt(null);
     setTimer(0);
-    setHintCount(defaultStarterHints);
+    setHintCount(settings.hintAllowance);
+    setHintAllowance(settings.hintAllowance);
+    setMistakes(0);
+    setLivesMode(livesModeChoice);
+    setUndoCount(0);
     setActionHistory([]);
-    let url = new URL(`${baseAPIURL}/random`);
-    if (difficulty !== "any") {
-      url = new URL(`${baseAPIURL}/daily`);
-      url.searchParams.append("difficulty", difficulty);
+    setRedoHistory([]);
+    setHintExplanation(null);
+  };
+
+  /**
+   * Loads a new board into the game and starts the timer.
+   *
+   * @param data - The board to load
+   * @param boardDifficulty - The difficulty label to show in the game header
+   * @param offline - Whether the board was generated locally rather than by the server
+   * @param boardVariant - The variant whose extra rules the board follows. Defaults to classic.
+   * @param boardCages - The cages of a Killer board. Defaults to none.
+   */
+  const loadGameBoard = (
+    data: GameBoardAPIResponse,
+    boardDifficulty: string,
+    offline: boolean,
+    boardVariant: Variant = "classic",
+    boardCages: Cage[] = []
+  ) => {
+    setBoardID(data.id);
+    setDifficulty(boardDifficulty);
+    setVariant(boardVariant);
+    setCages(boardCages);
+    setBoard(createBoard(data.value, boardVariant));
+    setSolution(findUniqueSolution(data.value, boardVariant, boardCages));
+    setIsOfflineBoard(offline);
+    setTimeStarted(new Date());
+    manageOverlayVisibility(null);
+    setGameFinished(false);
+  };
+
+  /**
+   * Resumes the game saved in localStorage.
+   */
+  const handleGameContinue = () => {
+    const game = loadSavedGame();
+    if (!game) {
+      setSavedGame(null);
+      return;
     }
-    manageOverlayVisibility(true, true, false);
-    fetch(url)
-      .then((response) => {
-        if (!response.ok) {
-          manageOverlayVisibility(true, false, true);
-          return response.json().then((data) => {
-            console.error("Error fetching board:", data.message);
-            return;
-          });
-        }
-        return response.json();
-      })
-      .then((data: GameBoardAPIResponse) => {
-        setBoardID(data.id);
-        setDifficulty(
-          difficulty === "any" ? data.difficulty || "Err" : difficulty
-        );
-        setUnsolvedBoard(data.value);
-        fillGrid(data.value);
-        manageOverlayVisibility(false, false, false);
-        setGameFinished(false);
-      })
+    resumeGame(game);
+  };
+
+  /**
+   * Resumes a saved game.
+   *
+   * Restores the board ID, difficulty, variant, cages and daily date, rebuilds the board from the unsolved
+   * board so that given and hinted cells stay locked, fills in the player's entries and
+   * notes, restores the undo history, replay and mistakes and resumes the timer from the saved
+   * elapsed time.
+   *
+   * @param game - The game to resume
+   */
+  const resumeGame = (game: SavedGame) => {
+    const gameVariant = game.variant;
+    navigateToGame(
+      game.route ?? getPlayRoute(game.unsolvedBoard, gameVariant, game.cages)
+    );
+    setSelectedCell(null);
+    setPendingHintCell(null);
+    setBoardID(game.boardID);
+    setDifficulty(game.difficulty);
+    setVariant(gameVariant);
+    setCages(game.cages ?? []);
+    setDailyDate(game.dailyDate ?? null);
+    setHintedCells(game.hintedCells);
+    setReplayEvents(game.replayEvents);
+    setIsOfflineBoard(game.offline);
+    setBoard(
+      fillPlayerEntries(
+        createBoard(game.unsolvedBoard, gameVariant),
+        game.board,
+        game.notes,
+        gameVariant
+      )
+    );
+    setSolution(
+      findUniqueSolution(game.unsolvedBoard, gameVariant, game.cages)
+    );
+    setActionHistory(game.actionHistory);
+    setRedoHistory([]);
+    setHintCount(game.hintCount);
+    setHintAllowance(game.hintAllowance);
+    setMistakes(game.mistakes);
+    setUndoCount(game.undoCount);
+    setLivesMode(game.livesMode);
+    setTimer(game.elapsedTime);
+    setTimeStarted(new Date(Date.now() - game.elapsedTime * 1000));
+    setTimeFinished(null);
+    setPausedAt(null);
+    manageOverlayVisibility(null);
+    setGameFinished(false);
+  };
+
+  /**
+   * Clears the board so the player can type in the givens of a puzzle, such as one from a
+   * newspaper. The timer doesn't run until the puzzle is started with
+   * handleCreatedPuzzleStart.
+   */
+  const handleCreatePuzzle = () => {
+    navigate({ name: "create" });
+    resetGameState();
+    setBoardID(0);
+    setDifficulty("");
+    setVariant("classic");
+    setCages([]);
+    setBoard(createEmptyBoard());
+    setSolution(null);
+    setNotesMode(false);
+    setCreatingPuzzle(true);
+    setSelectedCell({ row: 0, col: 0 });
+    manageOverlayVisibility(null);
+  };
+
+  /**
+   * Checks the puzzle being created and, if it can be played, starts it.
+   *
+   * @remarks
+   * - The givens must not clash, and the puzzle must have exactly one solution, so
+   *   mistakes in typing it in are caught before the timer starts
+   * - If the puzzle is broken, a notification explains why and the player can keep editing
+   * - Otherwise the givens are locked, the puzzle is graded and the timer starts. The
+   *   puzzle is played offline, since the server doesn't know about it.
+   */
+  const handleCreatedPuzzleStart = () => {
+    const givens = getBoardValues(board);
+    if (!isBoardValid(givens)) {
+      showToast(
+        "Some numbers clash with each other. Fix the highlighted cells and try again."
+      );
+      return;
+    }
+    const solutionCount = countSolutions(givens);
+    if (solutionCount === 0) {
+      showToast(
+        "This puzzle has no solution. Check the numbers against the original."
+      );
+      return;
+    }
+    if (solutionCount > 1) {
+      showToast(
+        "This puzzle has more than one solution. Check for numbers that are missing."
+      );
+      return;
+    }
+
+    navigateToGame({ name: "play", grid: toPuzzleString(givens) });
+    resetGameState();
+    setCreatingPuzzle(false);
+    const gradedDifficulty = gradeBoard(givens).difficulty;
+    loadGameBoard(
+      { id: 0, value: givens, difficulty: gradedDifficulty },
+      gradedDifficulty,
+      true
+    );
+  };
+
+  /**
+   * Starts a game from a puzzle pasted into the import box or loaded from a file.
+   *
+   * @param text - The puzzle, in any format {@link parsePuzzle} accepts
+   * @param gridVariant - The variant a grid is played as. Saves and replays record their
+   *                      own variant. Defaults to classic.
+   * @param cageText - The cages a grid is played with as a Killer puzzle, such as from a link
+   *
+   * @remarks
+   * - Grids are graded and played offline, since the server doesn't know about them
+   * - Killer puzzles are played with their cages. They aren't graded, as the solving
+   *   techniques don't use cages.
+   * - JSON saves are resumed with the player's entries, notes, time and mistakes
+   * - Replays are opened in the replay viewer
+   * - Puzzles that can't be read or solved are rejected with a notification
+   */
+  const handleImport = (
+    text: string,
+    gridVariant: Variant = "classic",
+    cageText?: string
+  ) => {
+    const result = parsePuzzle(text, gridVariant, cageText);
+    if (!result.ok) {
+      showToast(`Couldn't import the puzzle: ${result.error}`);
+      // The puzzle may have come from a link
+      navigate({ name: "home" }, true);
+      return;
+    }
+    setImportText("");
+    if (result.data.kind === "save") {
+      resumeGame(result.data.game);
+      return;
+    }
+    if (result.data.kind === "replay") {
+      openReplay(result.data.replay, "start");
+      return;
+    }
+
+    const { grid, hasUniqueSolution, cages: gridCages } = result.data;
+    const importedVariant = gridCages ? "killer" : gridVariant;
+    navigateToGame(getPlayRoute(grid, importedVariant, gridCages));
+    resetGameState();
+    const gradedDifficulty = gridCages
+      ? "Imported"
+      : gradeBoard(grid, gridVariant).difficulty;
+    loadGameBoard(
+      { id: 0, value: grid, difficulty: gradedDifficulty },
+      gradedDifficulty,
+      true,
+      importedVariant,
+      gridCages
+    );
+    if (!hasUniqueSolution) {
+      showToast(
+        "This puzzle has more than one solution, so any valid solution will be accepted.",
+        "info"
+      );
+    }
+  };
+
+  /**
+   * Reads a puzzle file chosen with the file picker and imports it.
+   *
+   * @param file - The chosen file, if any
+   */
+  const handleImportFile = (file: File | undefined) => {
+    if (!file) return;
+    file
+      .text()
+      .then(handleImport)
       .catch((error) => {
-        console.error("Error fetching board:", error);
-        manageOverlayVisibility(true, false, true);
+        console.error("Error reading puzzle file:", error);
+        showToast(`Couldn't read ${file.name}.`);
       });
   };
 
+  /**
+   * Exports the game in progress.
+   *
+   * @param format - "string" copies the puzzle to the clipboard as 81 characters, "sdk" and
+   *                 "ss" download it as a .sdk or .ss file, "killer" downloads a Killer
+   *                 puzzle with its cages as JSON, and "save" downloads the whole game,
+   *                 including the player's entries, as JSON
+   *
+   * @remarks
+   * The puzzle formats only include the original givens, leaving out cells filled in by
+   * hints, so exported puzzles can be played from the start.
+   */
+  const handleExport = (
+    format: "string" | "sdk" | "ss" | "killer" | "save"
+  ) => {
+    const givens = getGivens();
+    const fileName = `waffle-sudoku-${boardID || "puzzle"}`;
+    if (format === "string") {
+      navigator.clipboard
+        .writeText(toPuzzleString(givens))
+        .then(() => showToast("Puzzle copied to the clipboard", "success"))
+        .catch((error) => {
+          console.error("Error copying puzzle:", error);
+          showToast("Couldn't copy the puzzle.");
+        });
+      return;
+    }
+    if (format === "killer" || format === "save") {
+      downloadFile(
+        new Blob(
+          [
+            format === "killer"
+              ? toKillerJSON(givens, cages)
+              : toSaveJSON(getCurrentGame()),
+          ],
+          { type: "application/json" }
+        ),
+        `${fileName}.json`
+      );
+      return;
+    }
+    downloadFile(
+      new Blob([format === "sdk" ? toSDK(givens) : toSimpleSudoku(givens)], {
+        type: "text/plain",
+      }),
+      `${fileName}.${format}`
+    );
+  };
+
+  /**
+   * Pauses the game in progress.
+   *
+   * Records when the game was paused, which freezes the timer, and shows the paused
+   * overlay over the blurred board so the puzzle can't be studied while paused.
+   */
+  const handlePause = () => {
+    if (gameFinished || pausedAt) return;
+    setPausedAt(new Date());
+    manageOverlayVisibility("paused");
+  };
+
+  /**
+   * Resumes a paused game.
+   *
+   * Moves the start time forward by the time spent paused so that neither the timer
+   * nor the time shown when the game is finished includes the pause.
+   */
+  const handleResume = () => {
+    if (!pausedAt) return;
+    const pausedDuration = Date.now() - pausedAt.getTime();
+    setTimeStarted((prevTimeStarted) =>
+      prevTimeStarted
+        ? new Date(prevTimeStarted.getTime() + pausedDuration)
+        : prevTimeStarted
+    );
+    setPausedAt(null);
+    manageOverlayVisibility(null);
+  };
+
   /**
    * Handles the hint functionality for the game.
    *
    * When triggered, this function:
    * 1. Checks if hints are available and shakes the hint counter if none left
    * 2. Decrements the hint count if available
-   * 3. Identifies an empty cell in the current board
-   * 4. Temporarily marks it with "?" while requesting hint data
-   * 5. Sends a request to the backend API to fetch a hint
-   * 6. Updates the selected cell with the hint value from the API
-   * 7. Locks the cell (to prevent further editing)
-   * 8. Updates the unsolved board state
+   * 3. Looks for the next number that can be placed using solving techniques and, if
+   *    found, places it with an explanation of the technique used
+   * 4. Otherwise identifies an empty cell in the current board
+   * 5. Temporarily marks it with "?" while requesting hint data
+   * 6. Sends a request to the backend API to fetch a hint, or solves the board locally
+   *    for boards generated offline
+   * 7. Places the hint value from the API (see placeHint)
    *
    * @remarks
-   * - Makes an API call to the backend
+   * - Makes an API call to the backend when no solving technique applies
+   * - If the hint can't be obtained, the hint is refunded, the "?" is removed, the
+   *   previous selection is restored and the player is told what went wrong
    */
   const handleHint = () => {
+    if (gameFinished) return;
     if (hintCount <= 0) {
       hintCounterRef.current?.setAttribute("horizontal-shaking", "");
       const handleAnimationEnd = () => {
@@ -287,535 +1297,301 @@ const Game = () => {
     }
     if (obtainingHint) return;
     setObtainingHint(true);
-    setHintCount(hintCount - 1);
-    const preBoardState = getBoardState(false);
-    const rowCount = 9;
-    const emptyCellIndex = preBoardState.flat().indexOf(0);
-    const emptyCellButton = getInnerCellButton(
-      Math.floor(emptyCellIndex / rowCount),
-      emptyCellIndex % rowCount
-    );
-    if (emptyCellButton) {
-      emptyCellButton.innerHTML = "?";
-      selectInnerCell(emptyCellButton);
-    }
-    fetch(`${baseAPIURL}/hint`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        boardID: boardID,
-        board: preBoardState,
-      }),
-    })
-      .then((response) => response.json())
-      .then((data: HintAPIResponse) => {
-        if (data) {
-          const { parentCellIndex, innerCellIndex, hint } = data;
-          const cellButton = getInnerCellButton(
-            parentCellIndex,
-            innerCellIndex
-          );
-          if (cellButton) {
-            cellButton.innerHTML = hint.toString();
-            cellButton.setAttribute("data-locked", "");
-            setUnsolvedBoard(getBoardState(false));
-            selectInnerCell(cellButton);
-            submitBoard();
-          }
-          setObtainingHint(false);
-        }
-      })
-      .catch((error) => {
-        console.error("Error fetching hint:", error);
-        setObtainingHint(false);
-      });
-  };
-
-  /**
-   * Handles the selection of a cell in the Sudoku board.
-   *
-   * 1. Sets the selected cell in state
-   * 2. Clears previous highlighting from the board
-   * 3. Highlights the selected cell
-   * 4. Highlights related cells:
-   *    - Cells in the same 3x3 box
-   *    - Cells in the same row
-   *    - Cells in the same column
-   *    - Cells with the same number
-   * 5. Checks for and removes error markers on cells that no longer have conflicts
-   * 6. Highlights error cells (duplicate numbers in the same row, column, or 3x3 box)
-   *
-   * @param innerCellToSelect - The HTML button element representing the cell to be selected
-   *
-   * @remarks
-   * This function uses HTML Attributes to apply visual highlighting by setting the relevant
-   * attributes on the button elements. The attributes include:
-   * - "selected": For the currently selected cell
-   * - "selected-related": For cells related to the selection (same row/column/box)
-   * - "selected-related-number": For cells with the same number as the selected cell
-   * - "error": For cells with duplicate numbers that violate Sudoku rules
-   */
-  const selectInnerCell = (innerCellToSelect: HTMLButtonElement) => {
-    setSelectedCell(innerCellToSelect);
-
-    // Remove Previous Highlighting
-    clearBoardHighlighting();
-
-    // Highlight the selected cell
-    innerCellToSelect.setAttribute("selected", "");
-
-    // Highlight the parent cell (cells in the same 3x3 box)
-    const parentCell = innerCellToSelect.parentElement?.parentElement;
-    if (parentCell) {
-      Array.from(parentCell.children).forEach((innerCell: Element) => {
-        if (innerCell === innerCellToSelect.parentElement) return;
-        innerCell.children[0].setAttribute("selected-related", "");
-      });
-    }
-
-    const { innerRowIndex, innerColIndex } = getCellPosition(innerCellToSelect);
-    const amountOfCellsInParentCell = 9;
-
-    for (let i = 0; i < amountOfCellsInParentCell; i++) {
-      // Highlight the row
-      const rowButton = getInnerCellButton(innerRowIndex, i);
-      if (rowButton && rowButton !== innerCellToSelect) {
-        rowButton.setAttribute("selected-related", "");
-      }
-
-      // Highlight the column
-      const colButton = getInnerCellButton(i, innerColIndex);
-      if (colButton && colButton !== innerCellToSelect) {
-        colButton.setAttribute("selected-related", "");
-      }
-    }
-
-    // Highlight all cells with the same number
-    if (innerCellToSelect.innerText) {
-      const selectedValue = innerCellToSelect.innerText;
-      traverseBoard((innerButton) => {
-        if (
-          innerButton !== innerCellToSelect &&
-          innerButton.innerHTML === selectedValue
-        ) {
-          innerButton.setAttribute("selected-related-number", "");
-        }
+    setHintCount(hintCount - 1);
+    const preBoardState = getBoardValues(board, false);
+    const solution = solveBoard(preBoardState, variant, cages);
+    const logicalHint = solution
+      ? findLogicalHint(getBoardValues(board), solution, variant)
+      : null;
+    if (logicalHint) {
+      const { row, col, value } = logicalHint.placement;
+      placeHint(row, col, value, {
+        summary: describeStep(logicalHint.step),
+        steps: logicalHint.precedingSteps.map(describeStep),
+        houses: logicalHint.step.houses,
       });
+      setObtainingHint(false);
+      return;
     }
 
-    // Check if errors need to be cleared
-    document
-      .querySelectorAll("[selected][error], [selected-related][error]")
-      .forEach((errorCell) => {
-        const cellValue = errorCell.innerHTML;
-
-        if (!cellValue) {
-          errorCell.removeAttribute("error");
-          return;
-        }
-
-        const { innerRowIndex: cellRow, innerColIndex: cellCol } =
-          getCellPosition(errorCell as HTMLElement);
-
-        if (cellRow === -1 || cellCol === -1) return;
-
-        const board = getBoardState();
-        const cellValueInt = parseInt(cellValue);
-
-        let hasDuplicate = false;
-        const amountOfCellsInParentCell = 9;
-
-        // Check row
-        for (
-          let rowIndex = 0;
-          rowIndex < amountOfCellsInParentCell && !hasDuplicate;
-          rowIndex++
-        ) {
-          if (
-            rowIndex !== cellCol &&
-            board[cellRow][rowIndex] === cellValueInt
-          ) {
-            hasDuplicate = true;
-          }
-        }
-
-        // Check column
-        for (
-          let columnIndex = 0;
-          columnIndex < amountOfCellsInParentCell && !hasDuplicate;
-          columnIndex++
-        ) {
-          if (
-            columnIndex !== cellRow &&
-            board[columnIndex][cellCol] === cellValueInt
-          ) {
-            hasDuplicate = true;
-          }
-        }
-
-        // Check 3x3 box
-        const boxSize = 3;
-        const boxStartRow = Math.floor(cellRow / boxSize) * boxSize;
-        const boxStartCol = Math.floor(cellCol / boxSize) * boxSize;
-
-        for (
-          let rowIndex = boxStartRow;
-          rowIndex < boxStartRow + boxSize && !hasDuplicate;
-          rowIndex++
-        ) {
-          for (
-            let columnIndex = boxStartCol;
-            columnIndex < boxStartCol + boxSize && !hasDuplicate;
-            columnIndex++
-          ) {
-            if (
-              (rowIndex !== cellRow || columnIndex !== cellCol) &&
-              board[rowIndex][columnIndex] === cellValueInt
-            ) {
-              hasDuplicate = true;
-            }
+    const rowCount = 9;
+    const emptyCellIndex = preBoardState.flat().indexOf(0);
+    const previousSelectedCell = selectedCell;
+    const emptyCell = {
+      row: Math.floor(emptyCellIndex / rowCount),
+      col: emptyCellIndex % rowCount,
+    };
+    setPendingHintCell(emptyCell);
+    setSelectedCell(emptyCell);
+    const hintRequest: Promise<HintAPIResponse> = isOfflineBoard
+      ? new Promise((resolve, reject) => {
+          if (!solution) {
+            reject(new Error("Board has no solution"));
+            return;
           }
+          resolve({
+            parentCellIndex: emptyCell.row,
+            innerCellIndex: emptyCell.col,
+            hint: solution[emptyCell.row][emptyCell.col],
+          });
+        })
+      : fetchHint(boardID, preBoardState).then((result) => {
+          if (!result.ok) throw new Error(result.error.message);
+          return result.data;
+        });
+    hintRequest
+      .then((data: HintAPIResponse) => {
+        if (data) {
+          const { parentCellIndex, innerCellIndex, hint } = data;
+          placeHint(parentCellIndex, innerCellIndex, hint, {
+            summary:
+              "No step-by-step technique applies here yet, so this number comes straight from the solution",
+            steps: [],
+            houses: [],
+          });
+          setObtainingHint(false);
         }
-
-        // If no duplicated numbers, remove the error attribute
-        if (!hasDuplicate) {
-          errorCell.removeAttribute("error");
-        }
-      });
-
-    // Highlight duplicate numbers in the selected cells aka Errors
-    const highlightedCellNumbers = Array.from(
-      document.querySelectorAll("[selected], [selected-related]")
-    )
-      .map((cell) => {
-        if (cell === innerCellToSelect) return "";
-        return cell.innerHTML;
       })
-      .filter((cell) => cell);
-
-    if (highlightedCellNumbers.includes(innerCellToSelect.innerHTML)) {
-      Array.from(
-        document.querySelectorAll("[selected], [selected-related]")
-      ).forEach((cell) => {
-        if (cell.innerHTML === innerCellToSelect.innerHTML) {
-          cell.setAttribute("error", "");
-        }
+      .catch((error) => {
+        console.error("Error fetching hint:", error);
+        setPendingHintCell(null);
+        setSelectedCell(previousSelectedCell);
+        setHintCount((prevHintCount) => prevHintCount + 1);
+        setObtainingHint(false);
+        showToast("Couldn't get a hint, so it hasn't been used up.");
       });
-    }
   };
 
   /**
-   * Validates the game board for completion and handles the end of the game.
+   * Places a hint on the board and explains it.
    *
-   * Checks if all cells on the board are filled and error-free by examining
-   * all elements with the "cell-button" class. If the board is complete,
-   * displays the completion overlay and triggers the game finish handler.
+   * Writes the hint into the cell, locks it (to prevent further editing), clears the
+   * hint from its peers' notes, selects the cell and shows the explanation, whose houses
+   * are highlighted while the cell stays selected. The hint and its explanation are
+   * announced to screen readers.
+   *
+   * @param row - The row index (0-8) of the cell
+   * @param col - The column index (0-8) of the cell
+   * @param hint - The number to place
+   * @param explanation - Why the number goes in the cell
+   *
+   * @remarks
+   * The board is updated from its latest state, as hints from the API arrive after the
+   * player may have made further moves.
    */
-  const submitBoard = () => {
-    const isBoardComplete = Array.from(
-      document.querySelectorAll(".cell-button")
-    ).every((cellButton) => {
-      const cellValue = cellButton.innerHTML;
-      return !cellButton.hasAttribute("error") && cellValue !== "";
-    });
-    if (isBoardComplete) {
-      manageOverlayVisibility(true, true, false);
-      handleGameFinish();
-    }
+  const placeHint = (
+    row: number,
+    col: number,
+    hint: number,
+    explanation: Omit<HintExplanation, "cell">
+  ) => {
+    setBoard((prevBoard) =>
+      setCellValue(
+        prevBoard,
+        row,
+        col,
+        hint,
+        true,
+        settings.autoRemoveNotes,
+        variant
+      )
+    );
+    setHintedCells((prevHintedCells) => [...prevHintedCells, { row, col }]);
+    recordReplayEvent("hint", { row, col }, hint);
+    setPendingHintCell(null);
+    setRedoHistory([]);
+    setSelectedCell({ row, col });
+    setHintExplanation({ ...explanation, cell: { row, col } });
+    announce(
+      `Hint. ${formatCellPosition(row, col)}: ${hint}. ${explanation.summary}`
+    );
   };
 
   /**
-   * Calculates the position of a cell within a nested grid structure.
+   * Shares a spoiler-free summary of the solved puzzle and tells the player where it went.
    *
-   * @param cell - The HTML element representing a cell in the grid
-   * @returns An object containing the following position information:
-   *   - parentCellIndex: Index of the parent cell (0-based)
-   *   - innerCellIndex: Index of the inner cell within its parent (0-based)
-   *   - parentRow: Row coordinate of the parent cell in the outer grid
-   *   - parentCol: Column coordinate of the parent cell in the outer grid
-   *   - innerRow: Row coordinate of the cell within its parent grid
-   *   - innerCol: Column coordinate of the cell within its parent grid
-   *   - innerRowIndex: Global row coordinate of the cell across the entire grid
-   *   - innerColIndex: Global column coordinate of the cell across the entire grid
+   * @param format - Whether to share the text summary, which is copied to the clipboard or
+   *                 shared with the Web Share API, or the PNG card, which is shared or downloaded
    */
-  const getCellPosition = (cell: HTMLElement) => {
-    const parentCellIndex =
-      parseInt(
-        cell.parentElement?.parentElement?.getAttribute("data-index") || "0"
-      ) - 1;
-    const innerCellIndex = parseInt(cell.getAttribute("data-index") || "0") - 1;
-
-    const boxSize = 3;
-    const parentRow = Math.floor(parentCellIndex / boxSize);
-    const parentCol = parentCellIndex % boxSize;
-    const innerRow = Math.floor(innerCellIndex / boxSize);
-    const innerCol = innerCellIndex % boxSize;
-
-    const innerRowIndex = parentRow * boxSize + innerRow;
-    const innerColIndex = parentCol * boxSize + innerCol;
-
-    return {
-      parentCellIndex,
-      innerCellIndex,
-      parentRow,
-      parentCol,
-      innerRow,
-      innerCol,
-      innerRowIndex,
-      innerColIndex,
+  const handleShare = (format: "text" | "image") => {
+    const result: ShareResult = {
+      boardID,
+      difficulty,
+      dailyDate,
+      time: Math.floor(
+        ((timeFinished?.getTime() || 0) - (timeStarted?.getTime() || 0)) / 1000
+      ),
+      hintsUsed: hintAllowance - hintCount,
+      mistakes,
+      hintedCells,
     };
+    const outcomeMessages: Record<ShareOutcome, string | null> = {
+      shared: null,
+      cancelled: null,
+      copied: "Result copied to the clipboard",
+      downloaded: "Result card downloaded",
+    };
+    const share = format === "text" ? shareResultText : shareResultImage;
+    share(result)
+      .then((outcome) => {
+        const message = outcomeMessages[outcome];
+        if (message) showToast(message, "success");
+      })
+      .catch((error) => {
+        console.error("Error sharing result:", error);
+        showToast("Couldn't share your result.");
+      });
   };
 
   /**
-   * Removes highlighting attributes from all cells on the game board.
-   *
-   * This function clears the "selected", "selected-related", and "selected-related-number"
-   * attributes from all inner cell elements. Optionally, it can also clear the "error"
-   * attribute if specified.
-   *
-   * @param clearError - Whether to clear the "error" attribute from cells.
-   * Defaults to false.
+   * Shows the replay of the solved puzzle.
    */
-  const clearBoardHighlighting = (clearError: boolean = false) => {
-    const cells = document.querySelectorAll(".cell");
-    Array.from(cells).forEach((cell) => {
-      const innerCells = cell.querySelectorAll(".inner-cell");
-      innerCells.forEach((innerCell) => {
-        innerCell.children[0].removeAttribute("selected");
-        innerCell.children[0].removeAttribute("selected-related");
-        innerCell.children[0].removeAttribute("selected-related-number");
-        if (clearError) innerCell.children[0].removeAttribute("error");
-      });
-    });
+  const handleReplayOpen = () => {
+    openReplay(
+      {
+        boardID,
+        difficulty,
+        puzzle: getGivens(),
+        events: replayEvents,
+        time: Math.floor(
+          ((timeFinished?.getTime() || 0) - (timeStarted?.getTime() || 0)) /
+            1000
+        ),
+        variant,
+        cages: cages.length > 0 ? cages : undefined,
+      },
+      "finished"
+    );
   };
 
   /**
-   * Formats a time value in seconds to a string representation in "MM:SS" format.
+   * Shows the replay viewer.
    *
-   * @param time - The time value in seconds to format
-   * @returns A string in the format "MM:SS" where minutes and seconds are both two digits with leading zeros if necessary
-   *
-   * @example
-   * // Returns "02:05"
-   * formatTime(125);
-   *
-   * @example
-   * // Returns "00:09"
-   * formatTime(9);
+   * @param replay - The replay to watch
+   * @param returnTo - The overlay to go back to when the viewer is closed
    */
-  const formatTime = (time: number) => {
-    const minutes = Math.floor(time / 60)
-      .toString()
-      .padStart(2, "0");
-    const seconds = (time % 60).toString().padStart(2, "0");
-    return `${minutes}:${seconds}`;
+  const openReplay = (replay: ReplayData, returnTo: "finished" | "start") => {
+    setReplayViewer({ replay, returnTo, openedAt: Date.now() });
+    manageOverlayVisibility("replay");
   };
 
   /**
-   * Traverses through the 9x9 grid organized as a 3x3 grid of 3x3 cells.
-   *
-   * This function iterates through each button element in the grid and applies the provided callback
-   * to each one, passing the button element along with its calculated row and column position
-   * in the overall 9x9 grid.
-   *
-   * The grid structure is expected to have the following DOM hierarchy:
-   * - Elements with class "cell" (3x3 grid of these)
-   * - Elements with class "inner-cell" within each cell (3x3 grid of these)
-   * - A button element as the first child of each inner-cell
-   *
-   * @param callback - Function to execute for each button in the grid
-   * @param callback.innerButton - The button element being processed
-   * @param callback.row - The row index (0-8) of the button in the overall grid
-   * @param callback.col - The column index (0-8) of the button in the overall grid
+   * Closes the replay viewer, going back to the overlay it was opened from.
    */
-  const traverseBoard = (
-    callback: (innerButton: HTMLButtonElement, row: number, col: number) => void
-  ) => {
-    const boxSize = 3;
-    const cells = document.querySelectorAll(".cell");
-    cells.forEach((cell, index) => {
-      const innerCells = cell.querySelectorAll(".inner-cell");
-      innerCells.forEach((innerCell, innerIndex) => {
-        const row =
-          Math.floor(index / boxSize) * boxSize +
-          Math.floor(innerIndex / boxSize);
-        const col = (index % boxSize) * boxSize + (innerIndex % boxSize);
-        callback(innerCell.children[0] as HTMLButtonElement, row, col);
-      });
-    });
+  const handleReplayClose = () => {
+    if (replayViewer?.returnTo === "finished") {
+      manageOverlayVisibility("game-finished");
+    } else {
+      handleStartScreenOpen();
+    }
   };
 
   /**
-   * Retrieves a button element from a nested grid structure based on x and y coordinates.
-   *
-   * @param x - The x-coordinate in the overall grid.
-   * @param y - The y-coordinate in the overall grid.
-   *
-   * @returns The button element at the specified coordinates, or null if the cell doesn't exist.
-   *
-   * @remarks
-   * This function navigates a 2-level nested grid structure where:
-   * - The outer grid consists of cells with class "cell" arranged in a 3×3 grid.
-   * - Each cell contains inner cells with class "inner-cell" also arranged in a 3×3 grid.
-   * - Each inner cell contains a button as its first child.
-   *
-   * The coordinates (x,y) refer to the position in the flattened 9×9 grid of inner cells.
+   * Shows the settings overlay over the paused game.
    */
-  const getInnerCellButton = (x: number, y: number) => {
-    const boxSize = 3;
-    const cells = document.querySelectorAll(".cell");
-    const cellIndex =
-      Math.floor(x / boxSize) * boxSize + Math.floor(y / boxSize);
-    const innerCellIndex = (x % boxSize) * boxSize + (y % boxSize);
-    const cell = cells[cellIndex];
-    if (cell) {
-      const innerCells = cell.querySelectorAll(".inner-cell");
-      return innerCells[innerCellIndex].children[0] as HTMLButtonElement;
-    }
-    return null;
+  const handleSettingsOpen = () => {
+    manageOverlayVisibility("settings");
   };
 
   /**
-   * Retrieves the position of the currently selected cell in a nested grid structure.
-   *
-   * @returns An object containing the parent cell index and inner cell index if a cell is selected,
-   *          or null if no cell is currently selected.
-   * @returns {Object|null} The position object or null
-   * @returns {number} position.parentCellIndex - The zero-based index of the parent cell
-   * @returns {number} position.innerCellIndex - The zero-based index of the inner cell
+   * Closes the settings overlay, going back to the paused game if it was opened from it,
+   * and to the start overlay otherwise.
    */
-  const getSelectedCellPosition = () => {
-    if (selectedCell) {
-      const parentCellIndex =
-        parseInt(
-          selectedCell.parentElement?.parentElement?.getAttribute(
-            "data-index"
-          ) || "0"
-        ) - 1;
-      const innerCellIndex =
-        parseInt(selectedCell.getAttribute("data-index") || "0") - 1;
-      return { parentCellIndex, innerCellIndex };
+  const handleSettingsClose = () => {
+    if (pausedAt && !gameFinished) {
+      manageOverlayVisibility("paused");
+      return;
     }
-    return null;
+    handleStartScreenOpen();
   };
 
   /**
-   * Converts the selected cell position from parent/inner cell indices to an X/Y coordinate system.
-   * Uses a box size of 3 for calculations.
+   * Applies and saves a change to the player's settings.
    *
-   * @returns An object containing x and y coordinates of the selected cell, or null if no cell is selected.
-   * @returns {Object|null} position - The X/Y position
-   * @returns {number} position.x - The X coordinate in the flattened grid
-   * @returns {number} position.y - The Y coordinate in the flattened grid
+   * @param updatedSettings - The settings after the change
    */
-  const getSelectedCellPositionXY = () => {
-    const boxSize = 3;
-    const position = getSelectedCellPosition();
-    if (position) {
-      const { parentCellIndex, innerCellIndex } = position;
-      const x =
-        Math.floor(parentCellIndex / boxSize) * boxSize +
-        Math.floor(innerCellIndex / boxSize);
-      const y =
-        (parentCellIndex % boxSize) * boxSize + (innerCellIndex % boxSize);
-      return { x, y };
-    }
-    return null;
+  const handleSettingsChange = (updatedSettings: SettingsData) => {
+    setSettings(updatedSettings);
+    saveSettings(updatedSettings);
   };
 
   /**
-   * Populates the game board with values from a 2D grid.
+   * Shows a notification to the player, which is dismissed automatically after a few seconds.
    *
-   * @param grid - A 2D array of numbers representing the game board values
-   * @remarks
-   * - For non-zero values in the grid, the corresponding UI element is marked as "locked"
-   *   and displays the value
-   * - For zero values, the corresponding UI element remains empty
-   * - Uses the traverseBoard helper to iterate through all board positions
+   * @param message - The message to show
+   * @param type - The kind of notification, which sets its colour. Defaults to "error".
+   * @param action - An optional button shown with the message, such as "Retry"
    */
-  const fillGrid = (grid: number[][]) => {
-    traverseBoard((innerButton, row, col) => {
-      const value = grid[row][col];
-      if (value !== 0) {
-        innerButton.setAttribute("data-locked", "");
-        innerButton.innerHTML = value.toString();
-      } else {
-        innerButton.removeAttribute("data-locked");
-        innerButton.innerHTML = "";
-      }
-    });
+  const showToast = (
+    message: string,
+    type: ToastType = "error",
+    action?: ToastAction
+  ) => {
+    const id = nextToastIDRef.current++;
+    setToasts((prevToasts) => [...prevToasts, { id, message, type, action }]);
+    setTimeout(() => dismissToast(id), toastDuration);
   };
 
   /**
-   * Retrieves the current state of the game board as a 2D array of numbers.
-   *
-   * @param includeUserInput - Whether to include user-inputted values in the board state.
-   *                           If false, only includes values that are locked (indicated by the
-   *                           'data-locked' attribute). Defaults to true.
+   * Removes a notification.
    *
-   * @returns A 9x9 2D array representing the game board, where:
-   *          - 0 represents an empty cell
-   *          - 1-9 represent the numbers in filled cells
-   *          - User-inputted values may be excluded based on the includeUserInput parameter
+   * @param id - The ID of the notification to remove
    */
-  const getBoardState = (includeUserInput: boolean = true) => {
-    const amountOfCellsInParentCell = 9;
-    const boardState: number[][] = Array.from(
-      { length: amountOfCellsInParentCell },
-      () => Array(9).fill(0)
-    );
-    traverseBoard((innerButton, row, col) => {
-      const shouldIncludeValue =
-        includeUserInput || innerButton.hasAttribute("data-locked");
-      const cellContent = innerButton.innerHTML;
-      boardState[row][col] =
-        shouldIncludeValue && cellContent ? parseInt(cellContent) : 0;
-    });
-    return boardState;
+  const dismissToast = (id: number) => {
+    setToasts((prevToasts) => prevToasts.filter((toast) => toast.id !== id));
   };
 
   /**
-   * Manages the visibility of various overlays in the game.
+   * Shows one of the overlays in the game, hiding any other, or hides them all.
    *
-   * @param showOverlay - Whether to show the main overlay
-   * @param showLoadingOverlay - Whether to show the loading overlay
-   * @param showStartOverlay - Whether to show the start overlay
-   * @param showGameFinishedOverlay - Whether to show the game finished overlay
-   * @param showHowToPlayOverlay - Whether to show the how-to-play overlay
+   * @param overlay - The overlay to show, or null to hide them all and show the board
+   *
+   * @remarks
+   * Focus moves into the overlay being shown and is kept there by the keyboard handler,
+   * so keyboard and screen reader users don't end up on the board behind it.
    */
-  const manageOverlayVisibility = (
-    showOverlay: boolean = false,
-    showLoadingOverlay: boolean = false,
-    showStartOverlay: boolean = false,
-    showGameFinishedOverlay: boolean = false,
-    showHowToPlayOverlay: boolean = false
-  ) => {
-    if (
-      overlayRef.current &&
-      loadingOverlayRef.current &&
-      startOverlayRef.current &&
-      gameFinishedOverlayRef.current &&
-      howToPlayOverlayRef.current
-    ) {
-      const overlays = [
-        { ref: overlayRef.current, show: showOverlay },
-        { ref: loadingOverlayRef.current, show: showLoadingOverlay },
-        { ref: startOverlayRef.current, show: showStartOverlay },
-        { ref: gameFinishedOverlayRef.current, show: showGameFinishedOverlay },
-        { ref: howToPlayOverlayRef.current, show: showHowToPlayOverlay },
-      ];
-
-      for (const { ref, show } of overlays) {
-        if (show) {
-          ref.style.display = "flex";
-        } else {
-          if (getComputedStyle(ref).display === "none") continue;
-          applyHideAnimation(ref);
-        }
+  const manageOverlayVisibility = (overlay: OverlayName | null) => {
+    const overlayRefs: Record<OverlayName, HTMLDivElement | null> = {
+      loading: loadingOverlayRef.current,
+      start: startOverlayRef.current,
+      "game-finished": gameFinishedOverlayRef.current,
+      "how-to-play": howToPlayOverlayRef.current,
+      paused: pausedOverlayRef.current,
+      "game-over": gameOverOverlayRef.current,
+      stats: statsOverlayRef.current,
+      calendar: calendarOverlayRef.current,
+      replay: replayOverlayRef.current,
+      settings: settingsOverlayRef.current,
+    };
+    const container = overlayRef.current;
+    if (!container) return;
+
+    const focusWasInOverlay = container.contains(document.activeElement);
+    const overlays = [
+      { ref: container, show: overlay !== null },
+      ...Object.entries(overlayRefs).map(([name, ref]) => ({
+        ref,
+        show: name === overlay,
+      })),
+    ];
+    for (const { ref, show } of overlays) {
+      if (!ref) continue;
+      if (show) {
+        ref.style.display = "flex";
+      } else {
+        if (getComputedStyle(ref).display === "none") continue;
+        applyHideAnimation(ref);
       }
     }
+
+    // Keep keyboard focus in the open overlay, or return it to the board once they're closed
+    const openOverlay = overlay && overlayRefs[overlay];
+    openOverlayRef.current = openOverlay || null;
+    if (openOverlay) {
+      focusFirstElement(openOverlay);
+    } else if (focusWasInOverlay) {
+      cellButtonRefs.current.find((button) => button?.tabIndex === 0)?.focus();
+    }
   };
 
   /**
@@ -843,8 +1619,9 @@ const Game = () => {
   // This effect updates the timer every second once the game has started
   // This is calculated by subtracting the timeStarted from the current time
   // and dividing by 1000 to convert milliseconds to seconds
+  // The timer stops while the game is paused
   useEffect(() => {
-    if (!gameFinished) {
+    if (!gameFinished && !pausedAt) {
       const interval = setInterval(() => {
         setTimer(
           Math.floor((Date.now() - (timeStarted?.getTime() || 0)) / 1000)
@@ -853,14 +1630,108 @@ const Game = () => {
 
       return () => clearInterval(interval);
     }
-  }, [gameFinished, timeStarted]);
+  }, [gameFinished, timeStarted, pausedAt]);
+
+  // Automatic pause
+  // This effect pauses the game when the page is hidden or the window loses focus
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) handlePause();
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("blur", handlePause);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("blur", handlePause);
+    };
+  });
+
+  // Board completion
+  // This effect finishes the game once every cell on the board is filled without conflicts,
+  // whether the last number was entered by the player, redone or placed by a hint
+  // A board that has already been rejected isn't submitted again until it changes
+  // When conflicts are hidden by the settings, a filled board with conflicts is rejected
+  // with a notification instead, as nothing on the board shows what's wrong
+  useEffect(() => {
+    if (gameFinished || board === rejectedBoard) return;
+    if (
+      !showConflicts &&
+      board.every((boardRow) => boardRow.every((cell) => cell.value !== 0)) &&
+      !isBoardComplete(board, cages)
+    ) {
+      handleHiddenConflicts();
+      return;
+    }
+    if (!isBoardComplete(board, cages)) return;
+    manageOverlayVisibility("loading");
+    handleGameFinish();
+  });
+
+  // Save the in-progress game
+  // This effect persists the active game to localStorage whenever a move, note, hint or
+  // pause changes it, so the game survives a page reload
+  // The timer is left out, as the elapsed time is saved on its own by the effect below
+  useEffect(() => {
+    if (gameFinished || obtainingHint) return;
+    saveGame(getCurrentGame());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    gameFinished,
+    obtainingHint,
+    boardID,
+    difficulty,
+    variant,
+    cages,
+    dailyDate,
+    board,
+    actionHistory,
+    hintCount,
+    hintAllowance,
+    hintedCells,
+    mistakes,
+    livesMode,
+    undoCount,
+    replayEvents,
+    isOfflineBoard,
+    pausedAt,
+  ]);
+
+  // Save the elapsed time
+  // This effect saves the time of the in-progress game every second, without rewriting the
+  // rest of the game
+  useEffect(() => {
+    if (gameFinished || obtainingHint) return;
+    saveElapsedTime(timer);
+  }, [gameFinished, obtainingHint, timer]);
 
   // Handle keyboard input
-  // This effect listens for keydown events and handles number input, backspace, delete, and undo actions
-  // It also handles arrow key navigation between cells
+  // This effect listens for keydown events and handles number input, backspace, delete, notes mode, pause, undo and redo actions
+  // It also handles arrow key navigation between cells, moving focus with the selection, and
+  // keeps Tab focus inside the open overlay
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       const key = event.key;
+      if (key === "Tab") {
+        if (openOverlayRef.current) {
+          trapFocus(
+            event,
+            toastsRef.current
+              ? [openOverlayRef.current, toastsRef.current]
+              : [openOverlayRef.current]
+          );
+        }
+        return;
+      }
+      if (pausedAt) {
+        if (key === "p") handleResume();
+        return;
+      }
+      // Other keys are left to the overlay, such as the arrow keys for the replay scrubber
+      if (openOverlayRef.current) {
+        if (key === "Escape") handleGameExit();
+        return;
+      }
       if (key >= "1" && key <= "9") {
         handleNumberInput(parseInt(key));
       } else if (key === "Backspace" || key === "Delete") {
@@ -869,6 +1740,18 @@ const Game = () => {
         handleGameExit();
       } else if (key === "h") {
         handleHint();
+      } else if (key === "p") {
+        handlePause();
+      } else if (key === "n" && !creatingPuzzle) {
+        setNotesMode((prevNotesMode) => !prevNotesMode);
+      } else if (
+        (key.toLowerCase() === "z" &&
+          event.shiftKey &&
+          (event.ctrlKey || event.metaKey)) ||
+        (key === "y" && (event.ctrlKey || event.metaKey))
+      ) {
+        event.preventDefault();
+        handleRedoAction();
       } else if (key === "z" && (event.ctrlKey || event.metaKey)) {
         handleUndoAction();
       } else if (
@@ -878,38 +1761,18 @@ const Game = () => {
         key === "ArrowRight"
       ) {
         event.preventDefault();
-        if (!selectedCell) {
-          const firstButton = document.querySelector(
-            ".cell-button"
-          ) as HTMLButtonElement;
-          if (firstButton) {
-            selectInnerCell(firstButton);
-          }
-        }
-        const position = getSelectedCellPositionXY();
-
-        if (position) {
-          let { x, y } = position;
-
-          // Calculate the new position based on arrow key
-          const amountOfCellsInParentCellZeroIndexed = 8;
-          if (key === "ArrowUp")
-            x = x - 1 < 0 ? amountOfCellsInParentCellZeroIndexed : x - 1;
-          if (key === "ArrowDown")
-            x = x + 1 > amountOfCellsInParentCellZeroIndexed ? 0 : x + 1;
-          if (key === "ArrowLeft")
-            y = y - 1 < 0 ? amountOfCellsInParentCellZeroIndexed : y - 1;
-          if (key === "ArrowRight")
-            y = y + 1 > amountOfCellsInParentCellZeroIndexed ? 0 : y + 1;
-
-          // Get the button at the new position
-          const button = getInnerCellButton(x, y);
-
-          // Select the new cell if a button was found
-          if (button) {
-            selectInnerCell(button);
-          }
-        }
+        // Start from the top-left cell if no cell is selected
+        let { row, col } = selectedCell ?? { row: 0, col: 0 };
+
+        // Calculate the new position based on arrow key, wrapping around the edges
+        const lastIndex = 8;
+        if (key === "ArrowUp") row = row - 1 < 0 ? lastIndex : row - 1;
+        if (key === "ArrowDown") row = row + 1 > lastIndex ? 0 : row + 1;
+        if (key === "ArrowLeft") col = col - 1 < 0 ? lastIndex : col - 1;
+        if (key === "ArrowRight") col = col + 1 > lastIndex ? 0 : col + 1;
+
+        setSelectedCell({ row, col });
+        cellButtonRefs.current[row * 9 + col]?.focus();
       }
     };
 
@@ -919,59 +1782,313 @@ const Game = () => {
     };
   });
 
+  // Apply the theme
+  // This effect sets the palette on the root element, where the theme's CSS variables are
+  // defined, and follows the device's dark mode setting while the "system" theme is chosen
+  useEffect(() => {
+    const darkModeQuery = window.matchMedia("(prefers-color-scheme: dark)");
+    const applyTheme = () => {
+      document.documentElement.dataset.theme = resolveTheme(
+        settings.theme,
+        darkModeQuery.matches
+      );
+    };
+
+    applyTheme();
+    darkModeQuery.addEventListener("change", applyTheme);
+    return () => {
+      darkModeQuery.removeEventListener("change", applyTheme);
+    };
+  }, [settings.theme]);
+
+  // Open the URL the page was loaded with
+  // This effect runs once the overlays are mounted, so links to a game or overlay open it
+  useEffect(() => {
+    if (initialRouteOpenedRef.current) return;
+    initialRouteOpenedRef.current = true;
+    openRoute(getCurrentRoute());
+  });
+
+  // Handle browser back and forward navigation
+  // This effect listens for popstate events and shows the screen or game for the new URL
+  useEffect(() => {
+    const handlePopState = () => openRoute(getCurrentRoute());
+    window.addEventListener("popstate", handlePopState);
+    return () => {
+      window.removeEventListener("popstate", handlePopState);
+    };
+  });
+
+  // Houses referred to by the hint explanation, highlighted while the hinted cell is selected
+  const hintHouses =
+    hintExplanation &&
+    selectedCell?.row === hintExplanation.cell.row &&
+    selectedCell?.col === hintExplanation.cell.col
+      ? hintExplanation.houses
+      : [];
+
+  // The cell reached with the Tab key, which follows the selection (a roving tabindex)
+  const focusedCell = selectedCell ?? { row: 0, col: 0 };
+
+  // The cage of every cell of a Killer board, and the cells that break their cage's rules
+  const cageIndexes = board.map((boardRow, row) =>
+    boardRow.map((_, col) => findCageIndex(cages, row, col))
+  );
+  const cageErrors = getCageErrors(getBoardValues(board), cages);
+
+  // The cage of the selected cell, whose combinations are listed by the cage-sum helper
+  // Combinations without the numbers already in the cage are shown as ruled out
+  const selectedCage = selectedCell
+    ? cages[cageIndexes[selectedCell.row][selectedCell.col]]
+    : undefined;
+  const selectedCageValues =
+    selectedCage?.cells
+      .map((cell) => board[cell.row][cell.col].value)
+      .filter(Boolean) ?? [];
+
+  // Today's daily puzzles, shown as completed on the start overlay once solved
+  const today = getDailyDate();
+  const dailyStreak = calculateStreaks(dailyCompletions, today).current;
+
   return (
     <div className="game">
       <div className="game-header">
         <p>{`#${boardID.toString().padStart(4, "0")}`}</p>
         <div className="timer">
-          <p className="timer-display">{formatTime(timer)}</p>
+          {settings.showTimer && (
+            <p className="timer-display">{formatTime(timer)}</p>
+          )}
+          <button
+            className="button-pause"
+            aria-label={pausedAt ? "Resume" : "Pause"}
+            onClick={pausedAt ? handleResume : handlePause}
+            disabled={gameFinished}
+          >
+            {pausedAt ? <PlayIcon /> : <PauseIcon />}
+          </button>
+          <p
+            className="mistakes-display"
+            data-warning={
+              (livesMode && mistakes === maxMistakes - 1) || undefined
+            }
+          >
+            {livesMode
+              ? `Mistakes: ${mistakes}/${maxMistakes}`
+              : `Mistakes: ${mistakes}`}
+          </p>
         </div>
-        <p className="board-difficulty">{difficulty}</p>
+        <p className="board-difficulty">
+          {variant === "classic"
+            ? difficulty
+            : `${constraints[variant].name} ${difficulty}`}
+        </p>
       </div>
-      <div className="game-board">
-        {Array.from({ length: 9 }, (_, cellIndex) => (
-          <div
-            className="cell"
-            key={`cell-${cellIndex}`}
-            data-index={cellIndex + 1}
-            style={{
-              // Equal borders for all cells
-              borderRight: "2px solid #000",
-              borderBottom: "2px solid #000",
-              borderLeft: cellIndex % 3 === 0 ? "2px solid #000" : "none",
-              borderTop: cellIndex < 3 ? "2px solid #000" : "none",
-            }}
-          >
-            {Array.from({ length: 9 }, (_, innerCellIndex) => (
-              <div
-                className="inner-cell"
-                key={`inner-cell-${cellIndex}-${innerCellIndex}`}
-                data-index={innerCellIndex + 1}
-                style={{
-                  // Equal borders for all inner cells
-                  borderRight: "1px solid var(--color-tone-4)",
-                  borderBottom: "1px solid var(--color-tone-4)",
-                  borderLeft:
-                    innerCellIndex % 3 === 0
-                      ? "1px solid var(--color-tone-4)"
-                      : "none",
-                  borderTop:
-                    innerCellIndex < 3
-                      ? "1px solid var(--color-tone-4)"
-                      : "none",
-                }}
-              >
-                <button
-                  className="cell-button"
-                  onClick={handleCellClick}
-                  data-index={innerCellIndex + 1}
-                ></button>
-              </div>
-            ))}
+      <div
+        className="game-board"
+        role="grid"
+        aria-label="Sudoku board"
+        data-paused={pausedAt ? "" : undefined}
+      >
+        {board.map((boardRow, row) => (
+          <div className="board-row" role="row" key={`row-${row}`}>
+            {boardRow.map((cell, col) => {
+              const highlight = getCellHighlight(
+                board,
+                selectedCell,
+                row,
+                col,
+                variant
+              );
+              const isPendingHint =
+                pendingHintCell?.row === row && pendingHintCell?.col === col;
+              const isShownError =
+                (cell.error || cageErrors[row][col]) &&
+                !isPendingHint &&
+                showConflicts;
+              const cageIndex = cageIndexes[row][col];
+              const cage = cages[cageIndex];
+              const labelCell = cage && getCageLabelCell(cage);
+              return (
+                <div
+                  className="inner-cell"
+                  key={`inner-cell-${row}-${col}`}
+                  style={{
+                    // Thicker borders around the board and between the 3x3 boxes
+                    borderRight:
+                      col % 3 === 2
+                        ? "2px solid var(--board-border)"
+                        : "1px solid var(--color-tone-4)",
+                    borderBottom:
+                      row % 3 === 2
+                        ? "2px solid var(--board-border)"
+                        : "1px solid var(--color-tone-4)",
+                    borderLeft:
+                      col === 0 ? "2px solid var(--board-border)" : "none",
+                    borderTop:
+                      row === 0 ? "2px solid var(--board-border)" : "none",
+                  }}
+                >
+                  <button
+                    className="cell-button"
+                    role="gridcell"
+                    ref={(element) => {
+                      cellButtonRefs.current[row * 9 + col] = element;
+                    }}
+                    tabIndex={
+                      focusedCell.row === row && focusedCell.col === col
+                        ? 0
+                        : -1
+                    }
+                    aria-label={
+                      isPendingHint
+                        ? `${formatCellPosition(row, col)}, loading hint`
+                        : [
+                            describeCell(board, row, col, showConflicts),
+                            ...(isShownError && !cell.error
+                              ? ["conflict"]
+                              : []),
+                            ...(cage ? [`cage adding up to ${cage.sum}`] : []),
+                          ].join(", ")
+                    }
+                    aria-selected={highlight.selected}
+                    aria-readonly={cell.locked || undefined}
+                    aria-invalid={isShownError || undefined}
+                    onClick={() => handleCellClick(row, col)}
+                    onFocus={(event) => {
+                      // Cells reached with the keyboard are selected, so numbers can be typed in
+                      if (event.currentTarget.matches(":focus-visible")) {
+                        handleCellClick(row, col);
+                      }
+                    }}
+                    data-locked={cell.locked || undefined}
+                    data-variant-region={
+                      isInVariantRegion(variant, row, col) || undefined
+                    }
+                    data-selected={highlight.selected || undefined}
+                    data-related={
+                      (settings.highlightHouses && highlight.related) ||
+                      undefined
+                    }
+                    data-related-number={
+                      (settings.highlightSameNumber &&
+                        highlight.relatedNumber) ||
+                      undefined
+                    }
+                    data-hint-related={
+                      hintHouses.some((house) =>
+                        isCellInHouse({ row, col }, house)
+                      ) || undefined
+                    }
+                    data-error={isShownError || undefined}
+                  >
+                    {isPendingHint ? "?" : cell.value || ""}
+                  </button>
+                  <div className="cell-notes" aria-hidden="true">
+                    {Array.from({ length: 9 }, (_, noteIndex) => (
+                      <span key={`note-${row}-${col}-${noteIndex}`}>
+                        {cell.notes.includes(noteIndex + 1)
+                          ? noteIndex + 1
+                          : ""}
+                      </span>
+                    ))}
+                  </div>
+                  {cage && (
+                    <div
+                      className="cage-outline"
+                      aria-hidden="true"
+                      data-top={
+                        cageIndexes[row - 1]?.[col] !== cageIndex || undefined
+                      }
+                      data-bottom={
+                        cageIndexes[row + 1]?.[col] !== cageIndex || undefined
+                      }
+                      data-left={
+                        cageIndexes[row][col - 1] !== cageIndex || undefined
+                      }
+                      data-right={
+                        cageIndexes[row][col + 1] !== cageIndex || undefined
+                      }
+                    >
+                      {labelCell.row === row && labelCell.col === col && (
+                        <span className="cage-sum">{cage.sum}</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
         ))}
       </div>
+      <div className="visually-hidden" role="status" aria-live="polite">
+        {announcement}
+      </div>
 
+      {creatingPuzzle && (
+        <div className="create-puzzle-panel">
+          <p>
+            Type in the givens of your puzzle, then start it. It's checked for
+            clashes and a single solution first.
+          </p>
+          <button
+            className="input-button start-button"
+            onClick={handleCreatedPuzzleStart}
+          >
+            Start
+          </button>
+        </div>
+      )}
+      {variant !== "classic" && (
+        <p className="variant-rules">{constraints[variant].rules}</p>
+      )}
+      {selectedCage && (
+        <div className="cage-helper">
+          <p>
+            {`Cage of ${selectedCage.cells.length} ${
+              selectedCage.cells.length === 1 ? "cell" : "cells"
+            } adding up to ${selectedCage.sum}`}
+          </p>
+          <ul>
+            {getCageCombinations(
+              selectedCage.sum,
+              selectedCage.cells.length
+            ).map((combination) => (
+              <li
+                key={combination.join("")}
+                data-ruled-out={
+                  !selectedCageValues.every((value) =>
+                    combination.includes(value)
+                  ) || undefined
+                }
+              >
+                {combination.join(" + ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {hintExplanation && (
+        <div className="hint-explanation">
+          <p>{hintExplanation.summary}</p>
+          {hintExplanation.steps.length > 0 && (
+            <>
+              <p>Found after:</p>
+              <ul>
+                {hintExplanation.steps.map((step, index) => (
+                  <li key={`hint-step-${index}`}>{step}</li>
+                ))}
+              </ul>
+            </>
+          )}
+          <button
+            className="hint-explanation-close"
+            aria-label="Close the hint explanation"
+            onClick={() => setHintExplanation(null)}
+          >
+            ×
+          </button>
+        </div>
+      )}
       <div className="game-inputs">
         <div className="game-inputs-row">
           {Array.from({ length: 9 }, (_, index) => (
@@ -988,16 +2105,30 @@ const Game = () => {
           <div className="game-inputs-special">
             <button
               className="input-button button-undo"
+              aria-label="Undo"
               onClick={handleUndoAction}
             >
               <span className="undo-icon">
                 <UndoIcon />
               </span>
             </button>
+            <button
+              className="input-button button-redo"
+              aria-label="Redo"
+              onClick={handleRedoAction}
+            >
+              <span className="redo-icon">
+                <RedoIcon />
+              </span>
+            </button>
             <button
               className="input-button button-erase"
+              aria-label="Erase"
               onClick={() => {
-                if (selectedCell && !selectedCell.hasAttribute("data-locked")) {
+                if (
+                  selectedCell &&
+                  !board[selectedCell.row][selectedCell.col].locked
+                ) {
                   handleNumberInput(0);
                 }
               }}
@@ -1006,13 +2137,34 @@ const Game = () => {
                 <EraserIcon />
               </span>
             </button>
+            <button
+              className="input-button button-notes"
+              aria-label="Notes"
+              aria-pressed={notesMode}
+              onClick={() => setNotesMode((prevNotesMode) => !prevNotesMode)}
+              data-active={notesMode || undefined}
+              disabled={creatingPuzzle}
+            >
+              <span className="notes-icon">
+                <PencilIcon />
+              </span>
+            </button>
             <div className="hint-button-container">
-              <button className="input-button button-hint" onClick={handleHint}>
+              <button
+                className="input-button button-hint"
+                aria-label={`Hint, ${hintCount} left`}
+                onClick={handleHint}
+                disabled={creatingPuzzle}
+              >
                 <span className="hint-icon">
                   <HintIcon />
                 </span>
               </button>
-              <div className="hint-counter" ref={hintCounterRef}>
+              <div
+                className="hint-counter"
+                ref={hintCounterRef}
+                aria-hidden="true"
+              >
                 {hintCount}
               </div>
             </div>
@@ -1020,10 +2172,14 @@ const Game = () => {
           <div className="game-inputs-special">
             <button
               className="input-button button-reset-board"
+              aria-label="Reset board"
               onClick={() => {
-                fillGrid(unsolvedBoard);
-                clearBoardHighlighting(true);
+                setBoard(createBoard(getBoardValues(board, false), variant));
                 setActionHistory([]);
+                setRedoHistory([]);
+                recordReplayEvent("reset");
+                announce("Board reset");
+                setHintExplanation(null);
                 setSelectedCell(null);
               }}
             >
@@ -1033,6 +2189,7 @@ const Game = () => {
             </button>
             <button
               className="input-button button-exit"
+              aria-label="Exit game"
               onClick={handleGameExit}
             >
               <span className="exit-icon">
@@ -1043,13 +2200,25 @@ const Game = () => {
         </div>
       </div>
       <div className="overlay" ref={overlayRef}>
-        <div className="overlay-loading" ref={loadingOverlayRef}>
+        <div
+          className="overlay-loading"
+          ref={loadingOverlayRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Loading"
+        >
           <img className="throbber" src="/waffle.png" alt="Loading..." />
           <div className="loading-text">
             <h2>Baking...</h2>
           </div>
         </div>
-        <div className="start-overlay" ref={startOverlayRef}>
+        <div
+          className="start-overlay"
+          ref={startOverlayRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Waffle Sudoku"
+        >
           <h1>
             <div>
               Waffle
@@ -1059,52 +2228,171 @@ const Game = () => {
               Sudoku
             </div>
           </h1>
+          {savedGame && (
+            <>
+              <h2>Continue</h2>
+              <p>
+                {`#${savedGame.boardID.toString().padStart(4, "0")}`}{" "}
+                {savedGame.difficulty} at {formatTime(savedGame.elapsedTime)}
+              </p>
+              <button
+                className="input-button start-button"
+                onClick={handleGameContinue}
+              >
+                Continue
+              </button>
+              <div className="spacer"></div>
+            </>
+          )}
+          <label className="start-lives-toggle">
+            <input
+              type="checkbox"
+              checked={livesModeChoice}
+              onChange={(e) => setLivesModeChoice(e.target.checked)}
+            />
+            {`Lives mode: the game ends after ${maxMistakes} mistakes`}
+          </label>
           <h2>Daily Challenges</h2>
-          <p>Try your best!</p>
+          <p>
+            {dailyStreak > 0
+              ? `${dailyStreak} day streak. Keep it going!`
+              : "Try your best!"}
+          </p>
           <div className="start-daily-buttons">
+            {difficultyOrder.map((dailyDifficulty) => {
+              const completion = findDailyCompletion(
+                dailyCompletions,
+                today,
+                dailyDifficulty
+              );
+              return (
+                <button
+                  key={dailyDifficulty}
+                  className="input-button start-button"
+                  data-completed={!!completion || undefined}
+                  onClick={() => handleGameStart(dailyDifficulty)}
+                >
+                  {completion ? `✓ ${dailyDifficulty}` : dailyDifficulty}
+                  {completion && (
+                    <span className="start-daily-time">
+                      {formatTime(completion.time)}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          <button
+            className="start-calendar-button"
+            onClick={() => handleStartScreenOpen("calendar")}
+          >
+            View calendar
+          </button>
+          <h2>Random</h2>
+          <p>Play a random board</p>
+          <div className="start-random-buttons">
             <button
               className="input-button start-button"
-              onClick={() => handleGameStart("Easy")}
-            >
-              Easy
-            </button>
-            <button
-              className="input-button start-button"
-              onClick={() => handleGameStart("Medium")}
+              onClick={() => handleGameStart()}
             >
-              Medium
+              <span className="random-icon">
+                <RandomIcon />
+                <h3>Mix it up!</h3>
+              </span>
             </button>
             <button
               className="input-button start-button"
-              onClick={() => handleGameStart("Hard")}
+              onClick={() => handleOfflineGameStart()}
             >
-              Hard
+              Offline
             </button>
           </div>
-          <h2>Random</h2>
-          <p>Play a random board</p>
+          <div className="spacer"></div>
+          <h2>Variants</h2>
+          <p>Classic rules with a twist</p>
+          <div className="start-variant-buttons">
+            {variantOrder
+              .filter((boardVariant) => boardVariant !== "classic")
+              .map((boardVariant) => (
+                <button
+                  key={boardVariant}
+                  className="input-button start-button"
+                  onClick={() =>
+                    handleOfflineGameStart(undefined, undefined, boardVariant)
+                  }
+                >
+                  {constraints[boardVariant].name}
+                </button>
+              ))}
+          </div>
+          <div className="spacer"></div>
+          <h2>Statistics</h2>
+          <p>See if you're getting faster</p>
           <button
             className="input-button start-button"
-            onClick={() => handleGameStart()}
+            onClick={() => handleStartScreenOpen("stats")}
           >
-            <span className="random-icon">
-              <RandomIcon />
-              <h3>Mix it up!</h3>
-            </span>
+            View stats
           </button>
           <div className="spacer"></div>
+          <h2>Your Puzzles</h2>
+          <p>Paste, open or type in a puzzle from a book or another app</p>
+          <textarea
+            className="start-import-text"
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder="Paste 81 digits, a .sdk or .ss grid, or a JSON save or replay"
+            rows={3}
+            spellCheck={false}
+          />
+          <div className="start-import-buttons">
+            <button
+              className="input-button start-button"
+              onClick={() => handleImport(importText)}
+            >
+              Play
+            </button>
+            <label className="input-button start-button start-import-file">
+              Open file
+              <input
+                type="file"
+                accept=".txt,.sdk,.ss,.json"
+                onChange={(e) => {
+                  handleImportFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              className="input-button start-button"
+              onClick={handleCreatePuzzle}
+            >
+              Create
+            </button>
+          </div>
+          <div className="spacer"></div>
           <h2>How to Play</h2>
           <p>Learn how to play Sudoku</p>
           <button
             className="input-button start-button"
-            onClick={() =>
-              manageOverlayVisibility(true, false, false, false, true)
-            }
+            onClick={() => handleStartScreenOpen("how-to-play")}
           >
             Show me!
           </button>
+          <button
+            className="start-settings-button"
+            onClick={() => handleStartScreenOpen("settings")}
+          >
+            Settings
+          </button>
         </div>
-        <div className="game-finished-overlay" ref={gameFinishedOverlayRef}>
+        <div
+          className="game-finished-overlay"
+          ref={gameFinishedOverlayRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Solved"
+        >
           <h1>Congratulations!</h1>
           <h2>You've Solved it!</h2>
           <p>
@@ -1116,14 +2404,149 @@ const Game = () => {
               )
             )}`}
           </p>
+          <div className="game-finished-share-buttons">
+            <button
+              className="input-button start-button"
+              onClick={() => handleShare("text")}
+            >
+              Share
+            </button>
+            <button
+              className="input-button start-button"
+              onClick={() => handleShare("image")}
+            >
+              Image
+            </button>
+          </div>
+          <button
+            className="input-button start-button"
+            onClick={handleReplayOpen}
+          >
+            Watch replay
+          </button>
+          <button
+            className="input-button start-button"
+            onClick={() => handleStartScreenOpen()}
+          >
+            Return to the Kitchen
+          </button>
+        </div>
+        <div
+          className="game-over-overlay"
+          ref={gameOverOverlayRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Game over"
+        >
+          <h1>Game Over</h1>
+          <h2>{`You've made ${maxMistakes} mistakes`}</h2>
+          <p>
+            {`Time played: ${formatTime(
+              Math.floor(
+                ((timeFinished?.getTime() || 0) -
+                  (timeStarted?.getTime() || 0)) /
+                  1000
+              )
+            )}`}
+          </p>
           <button
             className="input-button start-button"
-            onClick={() => manageOverlayVisibility(true, false, true)}
+            onClick={() => handleStartScreenOpen()}
           >
             Return to the Kitchen
           </button>
         </div>
-        <div className="how-to-play-overlay" ref={howToPlayOverlayRef}>
+        <div
+          className="stats-overlay"
+          ref={statsOverlayRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Statistics"
+        >
+          <Stats
+            records={gameRecords}
+            onClose={() => handleStartScreenOpen()}
+          />
+        </div>
+        <div
+          className="calendar-overlay"
+          ref={calendarOverlayRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Daily calendar"
+        >
+          <DailyCalendar
+            completions={dailyCompletions}
+            onClose={() => handleStartScreenOpen()}
+          />
+        </div>
+        <div
+          className="replay-overlay"
+          ref={replayOverlayRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Replay"
+        >
+          {replayViewer && (
+            <Replay
+              key={replayViewer.openedAt}
+              replay={replayViewer.replay}
+              onClose={handleReplayClose}
+            />
+          )}
+        </div>
+        <div
+          className="settings-overlay"
+          ref={settingsOverlayRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Settings"
+        >
+          <Settings
+            settings={settings}
+            onChange={handleSettingsChange}
+            onClose={handleSettingsClose}
+          />
+        </div>
+        <div
+          className="paused-overlay"
+          ref={pausedOverlayRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Paused"
+        >
+          <h1>Paused</h1>
+          <p>{`Time so far: ${formatTime(timer)}`}</p>
+          <button className="input-button start-button" onClick={handleResume}>
+            Resume
+          </button>
+          <button
+            className="paused-settings-button"
+            onClick={handleSettingsOpen}
+          >
+            Settings
+          </button>
+          <h2>Export</h2>
+          <div className="paused-export-buttons">
+            {variant === "killer" ? (
+              <button onClick={() => handleExport("killer")}>Puzzle</button>
+            ) : (
+              <>
+                <button onClick={() => handleExport("string")}>Copy</button>
+                <button onClick={() => handleExport("sdk")}>.sdk</button>
+                <button onClick={() => handleExport("ss")}>.ss</button>
+              </>
+            )}
+            <button onClick={() => handleExport("save")}>Save</button>
+          </div>
+        </div>
+        <div
+          className="how-to-play-overlay"
+          ref={howToPlayOverlayRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label="How to play"
+        >
           <h1>How to Play</h1>
           <p>
             Fill the grid with numbers from 1 to 9, ensuring that each number
@@ -1135,13 +2558,14 @@ const Game = () => {
           </p>
           <button
             className="input-button"
-            onClick={() => manageOverlayVisibility(true, false, true)}
-            style={{ color: "black" }}
+            onClick={() => handleStartScreenOpen()}
+            style={{ color: "var(--color-tone-1)" }}
           >
             Got it!
           </button>
         </div>
       </div>
+      <Toasts toasts={toasts} onDismiss={dismissToast} ref={toastsRef} />
     </div>
   );
 };
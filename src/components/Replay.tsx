@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useState } from "react";
+import { getBoardValues } from "../utils/board";
+import { findCageIndex, getCageErrors, getCageLabelCell } from "../utils/cages";
+import { downloadFile } from "../utils/download";
+import {
+  buildReplayFrames,
+  describeReplayEvent,
+  toReplayJSON,
+} from "../utils/replay";
+import { formatTime } from "../utils/time";
+import { isInVariantRegion } from "../utils/variants";
+import type { Replay as ReplayData } from "../utils/replay";
+import "./Replay.css";
+
+interface ReplayProps {
+  replay: ReplayData;
+  onClose: () => void;
+}
+
+const playbackSpeeds = [1, 2, 4, 8];
+// Long pauses for thought are shortened, so watching a replay doesn't take as long as the solve
+const maxStepDelay = 3000;
+const minStepDelay = 50;
+
+/**
+ * Plays back a recorded solve move by move, with play/pause, a choice of speeds and a
+ * scrubber to jump to any move. The board is drawn with the variant's shaded regions and,
+ * for Killer puzzles, the cages.
+ *
+ * @param replay - The recorded solve
+ * @param onClose - Called when the player leaves the replay
+ */
+const Replay = ({ replay, onClose }: ReplayProps) => {
+  const frames = useMemo(() => buildReplayFrames(replay), [replay]);
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(playbackSpeeds[1]);
+  const lastStep = frames.length - 1;
+  const { board, event } = frames[step];
+  const cages = useMemo(() => replay.cages ?? [], [replay]);
+  const cageIndexes = useMemo(
+    () =>
+      Array.from({ length: 9 }, (_, row) =>
+        Array.from({ length: 9 }, (_, col) => findCageIndex(cages, row, col))
+      ),
+    [cages]
+  );
+  const cageErrors = getCageErrors(getBoardValues(board), cages);
+
+  // Advance playback
+  // This effect waits for as long as the player took between the current move and the
+  // next, divided by the playback speed, then shows the next move
+  useEffect(() => {
+    if (!playing) return;
+    const nextEvent = frames[step + 1]?.event;
+    if (!nextEvent) return;
+    const gap = nextEvent.time - (frames[step].event?.time ?? 0);
+    const timeout = setTimeout(
+      () => {
+        setStep(step + 1);
+        if (step + 1 >= lastStep) setPlaying(false);
+      },
+      Math.max(Math.min(gap, maxStepDelay) / speed, minStepDelay)
+    );
+    return () => clearTimeout(timeout);
+  }, [frames, lastStep, playing, speed, step]);
+
+  const handlePlayPause = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Start again from the beginning once the replay has finished
+    if (step >= lastStep) setStep(0);
+    setPlaying(lastStep > 0);
+  };
+
+  return (
+    <>
+      <h1>Replay</h1>
+      <p className="replay-details">
+        {`#${replay.boardID.toString().padStart(4, "0")} ${
+          replay.difficulty
+        } · ${formatTime(replay.time)}`}
+      </p>
+      <div className="replay-board">
+        {board.map((boardRow, row) =>
+          boardRow.map((cell, col) => {
+            const cageIndex = cageIndexes[row][col];
+            const cage = cages[cageIndex];
+            const labelCell = cage && getCageLabelCell(cage);
+            return (
+              <div
+                key={`replay-cell-${row}-${col}`}
+                className="replay-cell"
+                data-locked={cell.locked || undefined}
+                data-error={cell.error || cageErrors[row][col] || undefined}
+                data-variant-region={
+                  isInVariantRegion(replay.variant, row, col) || undefined
+                }
+                data-current={
+                  (event &&
+                    event.type !== "reset" &&
+                    event.row === row &&
+                    event.col === col) ||
+                  undefined
+                }
+                data-box-right={col === 2 || col === 5 || undefined}
+                data-box-bottom={row === 2 || row === 5 || undefined}
+              >
+                {cell.value ? (
+                  cell.value
+                ) : (
+                  <div className="replay-cell-notes">
+                    {Array.from({ length: 9 }, (_, noteIndex) => (
+                      <span key={`replay-note-${noteIndex}`}>
+                        {cell.notes.includes(noteIndex + 1)
+                          ? noteIndex + 1
+                          : ""}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {cage && (
+                  <div
+                    className="cage-outline"
+                    aria-hidden="true"
+                    data-top={
+                      cageIndexes[row - 1]?.[col] !== cageIndex || undefined
+                    }
+                    data-bottom={
+                      cageIndexes[row + 1]?.[col] !== cageIndex || undefined
+                    }
+                    data-left={
+                      cageIndexes[row][col - 1] !== cageIndex || undefined
+                    }
+                    data-right={
+                      cageIndexes[row][col + 1] !== cageIndex || undefined
+                    }
+                  >
+                    {labelCell.row === row && labelCell.col === col && (
+                      <span className="cage-sum">{cage.sum}</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+      <p className="replay-event">
+        {`${formatTime(
+          Math.floor((event?.time ?? 0) / 1000)
+        )} · ${describeReplayEvent(event)}`}
+      </p>
+      <input
+        className="replay-scrubber"
+        type="range"
+        min={0}
+        max={lastStep}
+        value={step}
+        aria-label="Move"
+        onChange={(e) => {
+          setPlaying(false);
+          setStep(Number(e.target.value));
+        }}
+      />
+      <div className="replay-controls">
+        <button className="replay-control" onClick={handlePlayPause}>
+          {playing ? "Pause" : "Play"}
+        </button>
+        {playbackSpeeds.map((playbackSpeed) => (
+          <button
+            key={playbackSpeed}
+            className="replay-control"
+            data-active={speed === playbackSpeed || undefined}
+            onClick={() => setSpeed(playbackSpeed)}
+          >
+            {`${playbackSpeed}×`}
+          </button>
+        ))}
+        <button
+          className="replay-control"
+          onClick={() =>
+            downloadFile(
+              new Blob([toReplayJSON(replay)], { type: "application/json" }),
+              `waffle-sudoku-replay-${replay.boardID}.json`
+            )
+          }
+        >
+          Download
+        </button>
+      </div>
+      <button
+        className="input-button start-button"
+        onClick={() => {
+          setPlaying(false);
+          onClose();
+        }}
+      >
+        Back
+      </button>
+    </>
+  );
+};
+
+export default Replay;
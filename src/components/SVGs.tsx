@@ -25,6 +25,9 @@ const EraserIcon = () => {
   );
 };
 
+const undoPath =
+  "M109.79 58.85c38.55-24.61 82.86-37.93 127.61-38.97 48.03-1.12 96.61 11.93 139.16 40.34 15.05 10.05 28.64 21.2 40.7 33.21 41.85 41.65 66.03 93.93 71.53 148.22 5.49 54.16-7.72 110.17-40.59 159.41-9.47 14.18-20.54 27.76-33.22 40.5-29.86 30.01-66.53 51.27-106.54 62.25-39.26 10.76-81.54 11.59-123.52 1.04-13.74-3.45-27.53-8.07-41.17-13.85-13.5-5.72-26.2-12.28-37.84-19.68-15.81-10.02-20.5-30.98-10.47-46.78s30.98-20.49 46.78-10.47c9.19 5.84 18.5 10.72 27.77 14.65 9.81 4.16 20.33 7.63 31.36 10.4 30.67 7.71 61.23 7.18 89.33-.52 28.52-7.82 54.8-23.1 76.33-44.74 9.62-9.68 17.96-19.88 25-30.43 23.83-35.68 33.42-76.14 29.46-115.16-3.95-38.9-21.49-76.59-51.91-106.86-9.09-9.05-19.32-17.44-30.63-25-30.55-20.39-65.53-29.76-100.2-28.95-35.07.82-69.85 12.1-99.43 32.96l22.38 7.41c18.45 6.07 28.49 25.96 22.41 44.41-6.07 18.45-25.96 28.49-44.41 22.41l-95.85-31.72c-18.39-6.05-28.41-25.84-22.46-44.24l24.38-92.5C50.68 7.44 69.9-3.77 88.66 1.16c18.75 4.93 29.96 24.15 25.02 42.91l-3.89 14.78zM82.41 347.31c7.97 16.91.74 37.09-16.17 45.06-16.9 7.97-37.08.73-45.05-16.17-2.49-5.28-4.9-11.05-7.22-17.28-2.25-6.05-4.2-12.01-5.83-17.87a222.07 222.07 0 0 1-6.12-29.72C.69 301.57.01 291.43 0 281c0-18.66 15.13-33.79 33.79-33.79 18.66 0 33.79 15.13 33.79 33.79 0 6.98.51 14.12 1.49 21.31.95 7 2.39 13.93 4.28 20.71 1.21 4.35 2.53 8.46 3.96 12.31 1.37 3.69 3.08 7.7 5.1 11.98z";
+
 const UndoIcon = () => {
   return (
     <svg
@@ -38,10 +41,26 @@ const UndoIcon = () => {
       width="24"
       height="24"
     >
-      <path
-        fillRule="nonzero"
-        d="M109.79 58.85c38.55-24.61 82.86-37.93 127.61-38.97 48.03-1.12 96.61 11.93 139.16 40.34 15.05 10.05 28.64 21.2 40.7 33.21 41.85 41.65 66.03 93.93 71.53 148.22 5.49 54.16-7.72 110.17-40.59 159.41-9.47 14.18-20.54 27.76-33.22 40.5-29.86 30.01-66.53 51.27-106.54 62.25-39.26 10.76-81.54 11.59-123.52 1.04-13.74-3.45-27.53-8.07-41.17-13.85-13.5-5.72-26.2-12.28-37.84-19.68-15.81-10.02-20.5-30.98-10.47-46.78s30.98-20.49 46.78-10.47c9.19 5.84 18.5 10.72 27.77 14.65 9.81 4.16 20.33 7.63 31.36 10.4 30.67 7.71 61.23 7.18 89.33-.52 28.52-7.82 54.8-23.1 76.33-44.74 9.62-9.68 17.96-19.88 25-30.43 23.83-35.68 33.42-76.14 29.46-115.16-3.95-38.9-21.49-76.59-51.91-106.86-9.09-9.05-19.32-17.44-30.63-25-30.55-20.39-65.53-29.76-100.2-28.95-35.07.82-69.85 12.1-99.43 32.96l22.38 7.41c18.45 6.07 28.49 25.96 22.41 44.41-6.07 18.45-25.96 28.49-44.41 22.41l-95.85-31.72c-18.39-6.05-28.41-25.84-22.46-44.24l24.38-92.5C50.68 7.44 69.9-3.77 88.66 1.16c18.75 4.93 29.96 24.15 25.02 42.91l-3.89 14.78zM82.41 347.31c7.97 16.91.74 37.09-16.17 45.06-16.9 7.97-37.08.73-45.05-16.17-2.49-5.28-4.9-11.05-7.22-17.28-2.25-6.05-4.2-12.01-5.83-17.87a222.07 222.07 0 0 1-6.12-29.72C.69 301.57.01 291.43 0 281c0-18.66 15.13-33.79 33.79-33.79 18.66 0 33.79 15.13 33.79 33.79 0 6.98.51 14.12 1.49 21.31.95 7 2.39 13.93 4.28 20.71 1.21 4.35 2.53 8.46 3.96 12.31 1.37 3.69 3.08 7.7 5.1 11.98z"
-      />
+      <path fillRule="nonzero" d={undoPath} />
+    </svg>
+  );
+};
+
+const RedoIcon = () => {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      shapeRendering="geometricPrecision"
+      textRendering="geometricPrecision"
+      imageRendering="optimizeQuality"
+      fillRule="evenodd"
+      clipRule="evenodd"
+      viewBox="0 0 490 512.34"
+      width="24"
+      height="24"
+      transform="scale(-1 1)"
+    >
+      <path fillRule="nonzero" d={undoPath} />
     </svg>
   );
 };
@@ -137,4 +156,54 @@ const RandomIcon = () => {
   );
 };
 
-export { EraserIcon, UndoIcon, ResetIcon, HintIcon, ExitIcon, RandomIcon };
+const PencilIcon = () => {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      width="24"
+      height="24"
+    >
+      <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04a1 1 0 0 0 0-1.41l-2.34-2.34a1 1 0 0 0-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" />
+    </svg>
+  );
+};
+
+const PauseIcon = () => {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      width="20"
+      height="20"
+    >
+      <path d="M6 4h4v16H6zM14 4h4v16h-4z" />
+    </svg>
+  );
+};
+
+const PlayIcon = () => {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      width="20"
+      height="20"
+    >
+      <path d="M7 4v16l13-8z" />
+    </svg>
+  );
+};
+
+export {
+  EraserIcon,
+  UndoIcon,
+  RedoIcon,
+  ResetIcon,
+  HintIcon,
+  ExitIcon,
+  RandomIcon,
+  PencilIcon,
+  PauseIcon,
+  PlayIcon,
+};
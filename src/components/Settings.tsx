@@ -0,0 +1,103 @@
+import {
+  assistSettings,
+  hintAllowances,
+  themes,
+  withoutAssists,
+} from "../utils/settings";
+import type { Settings as SettingsData } from "../utils/settings";
+import "./Settings.css";
+
+interface SettingsProps {
+  settings: SettingsData;
+  onChange: (settings: SettingsData) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lets the player change their settings, which are applied as soon as they're changed.
+ *
+ * @param settings - The current settings
+ * @param onChange - Called with the updated settings when one is changed
+ * @param onClose - Called when the player leaves the settings
+ *
+ * @remarks
+ * A change to the hint allowance applies from the next game, so it can't be used to top
+ * up the hints of the game in progress.
+ */
+const Settings = ({ settings, onChange, onClose }: SettingsProps) => (
+  <>
+    <h1>Settings</h1>
+    <h2>Theme</h2>
+    <div className="settings-options" role="radiogroup" aria-label="Theme">
+      {themes.map(({ theme, label }) => (
+        <button
+          key={theme}
+          className="settings-option"
+          role="radio"
+          aria-checked={settings.theme === theme}
+          data-active={settings.theme === theme || undefined}
+          onClick={() => onChange({ ...settings, theme })}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+    <p className="settings-note">
+      System follows your device's light or dark mode. High contrast and
+      colour-blind safe mark conflicting numbers with stripes and an underline,
+      and outline cells with the same number as the selected cell.
+    </p>
+    <h2>Assists</h2>
+    {assistSettings.map(({ setting, label }) => (
+      <label className="settings-toggle" key={setting}>
+        <input
+          type="checkbox"
+          checked={settings[setting]}
+          onChange={(e) =>
+            onChange({ ...settings, [setting]: e.target.checked })
+          }
+        />
+        {label}
+      </label>
+    ))}
+    <label className="settings-toggle">
+      <input
+        type="checkbox"
+        checked={settings.showTimer}
+        onChange={(e) => onChange({ ...settings, showTimer: e.target.checked })}
+      />
+      Show the timer
+    </label>
+    <h2>Hints per game</h2>
+    <div
+      className="settings-options"
+      role="radiogroup"
+      aria-label="Hints per game"
+    >
+      {hintAllowances.map((hintAllowance) => (
+        <button
+          key={hintAllowance}
+          className="settings-option"
+          role="radio"
+          aria-checked={settings.hintAllowance === hintAllowance}
+          data-active={settings.hintAllowance === hintAllowance || undefined}
+          onClick={() => onChange({ ...settings, hintAllowance })}
+        >
+          {hintAllowance}
+        </button>
+      ))}
+    </div>
+    <p className="settings-note">Changes to hints apply from the next game.</p>
+    <button
+      className="settings-purist"
+      onClick={() => onChange(withoutAssists(settings))}
+    >
+      Turn off all assists and hints
+    </button>
+    <button className="input-button start-button" onClick={onClose}>
+      Back
+    </button>
+  </>
+);
+
+export default Settings;
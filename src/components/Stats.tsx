@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { calculateStats } from "../utils/stats";
+import { difficultyOrder } from "../utils/solver";
+import { formatTime } from "../utils/time";
+import { constraints, variantOrder } from "../utils/variants";
+import type { GameRecord } from "../utils/stats";
+import type { Variant } from "../utils/variants";
+import "./Stats.css";
+
+interface StatsProps {
+  records: GameRecord[];
+  onClose: () => void;
+}
+
+interface TimeTrendChartProps {
+  records: GameRecord[];
+}
+
+const allDifficulties = "All";
+const maxChartedGames = 30;
+const chartWidth = 300;
+const chartHeight = 150;
+const chartPadding = 10;
+
+/**
+ * Formats an optional time in seconds, showing a dash when there is no time.
+ */
+const formatOptionalTime = (time: number | null) =>
+  time === null ? "–" : formatTime(Math.round(time));
+
+/**
+ * Plots the time taken for each won game, oldest to newest, with a dashed least squares
+ * trend line. A trend line sloping down means the player is getting faster.
+ *
+ * @param records - The won games to plot, oldest first
+ */
+const TimeTrendChart = ({ records }: TimeTrendChartProps) => {
+  const chartedRecords = records.slice(-maxChartedGames);
+  if (chartedRecords.length < 2) {
+    return (
+      <p className="stats-chart-empty">
+        Win at least two games to see your time trend
+      </p>
+    );
+  }
+
+  const times = chartedRecords.map((record) => record.time);
+  const maxTime = Math.max(...times);
+  const getX = (index: number) =>
+    chartPadding +
+    (index / (times.length - 1)) * (chartWidth - chartPadding * 2);
+  const getY = (time: number) =>
+    chartHeight -
+    chartPadding -
+    (time / maxTime) * (chartHeight - chartPadding * 2);
+
+  // Least squares fit of time against game index
+  const meanIndex = (times.length - 1) / 2;
+  const meanTime =
+    times.reduce((total, time) => total + time, 0) / times.length;
+  const slope =
+    times.reduce(
+      (total, time, index) => total + (index - meanIndex) * (time - meanTime),
+      0
+    ) / times.reduce((total, _, index) => total + (index - meanIndex) ** 2, 0);
+  const trendStart = meanTime - slope * meanIndex;
+  const trendEnd = meanTime + slope * meanIndex;
+
+  return (
+    <svg
+      className="stats-chart"
+      viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+      role="img"
+      aria-label={`Times of the last ${times.length} won games`}
+    >
+      <line
+        className="stats-chart-axis"
+        x1={chartPadding}
+        y1={chartHeight - chartPadding}
+        x2={chartWidth - chartPadding}
+        y2={chartHeight - chartPadding}
+      />
+      <text className="stats-chart-label" x={chartPadding} y={chartPadding}>
+        {formatTime(maxTime)}
+      </text>
+      <line
+        className="stats-chart-trend"
+        x1={getX(0)}
+        y1={getY(Math.max(trendStart, 0))}
+        x2={getX(times.length - 1)}
+        y2={getY(Math.max(trendEnd, 0))}
+      />
+      <polyline
+        className="stats-chart-line"
+        points={times
+          .map((time, index) => `${getX(index)},${getY(time)}`)
+          .join(" ")}
+      />
+      {chartedRecords.map((record, index) => (
+        <circle
+          className="stats-chart-point"
+          key={`${record.completedAt}-${index}`}
+          cx={getX(index)}
+          cy={getY(record.time)}
+          r={3}
+        >
+          <title>{`${record.difficulty} #${record.boardID}: ${formatTime(
+            record.time
+          )}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Shows the player's statistics from the games they have completed: totals, times per
+ * difficulty and a chart of how their times are trending.
+ *
+ * @param records - The records of completed games, oldest first
+ * @param onClose - Called when the player leaves the statistics
+ *
+ * @remarks
+ * Variants are shown one at a time, as their times can't be compared with each other.
+ * Once the player has finished a game of another variant, buttons switch between them.
+ */
+const Stats = ({ records, onClose }: StatsProps) => {
+  const [statsVariant, setStatsVariant] = useState<Variant>("classic");
+  const [chartDifficulty, setChartDifficulty] = useState(allDifficulties);
+  const playedVariants = variantOrder.filter(
+    (variant) =>
+      variant === "classic" ||
+      records.some((record) => record.variant === variant)
+  );
+  const variantRecords = records.filter(
+    (record) => record.variant === statsVariant
+  );
+  const stats = calculateStats(variantRecords, difficultyOrder);
+  const chartedRecords = variantRecords.filter(
+    (record) =>
+      record.won &&
+      (chartDifficulty === allDifficulties ||
+        record.difficulty === chartDifficulty)
+  );
+
+  return (
+    <>
+      <h1>Statistics</h1>
+      {playedVariants.length > 1 && (
+        <div className="stats-variant-filters">
+          {playedVariants.map((variant) => (
+            <button
+              key={variant}
+              className="stats-chart-filter"
+              data-active={statsVariant === variant || undefined}
+              onClick={() => {
+                setStatsVariant(variant);
+                setChartDifficulty(allDifficulties);
+              }}
+            >
+              {constraints[variant].name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="stats-summary">
+        <div>
+          <p>{stats.played}</p>
+          <p>Played</p>
+        </div>
+        <div>
+          <p>{`${Math.round(stats.winRate * 100)}%`}</p>
+          <p>Win Rate</p>
+        </div>
+        <div>
+          <p>{stats.averageHintsUsed.toFixed(1)}</p>
+          <p>Hints per Game</p>
+        </div>
+        <div>
+          <p>{stats.averageMistakes.toFixed(1)}</p>
+          <p>Mistakes per Game</p>
+        </div>
+      </div>
+      <table className="stats-table">
+        <thead>
+          <tr>
+            <th>Difficulty</th>
+            <th>Won</th>
+            <th>Best</th>
+            <th>Average</th>
+            <th>Median</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.byDifficulty.map((difficultyStats) => (
+            <tr key={difficultyStats.difficulty}>
+              <td>{difficultyStats.difficulty}</td>
+              <td>{`${difficultyStats.won}/${difficultyStats.played}`}</td>
+              <td>{formatOptionalTime(difficultyStats.bestTime)}</td>
+              <td>{formatOptionalTime(difficultyStats.averageTime)}</td>
+              <td>{formatOptionalTime(difficultyStats.medianTime)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <h2>Time Trend</h2>
+      <div className="stats-chart-filters">
+        {[
+          allDifficulties,
+          ...stats.byDifficulty.map(({ difficulty }) => difficulty),
+        ].map((difficulty) => (
+          <button
+            key={difficulty}
+            className="stats-chart-filter"
+            data-active={chartDifficulty === difficulty || undefined}
+            onClick={() => setChartDifficulty(difficulty)}
+          >
+            {difficulty}
+          </button>
+        ))}
+      </div>
+      <TimeTrendChart records={chartedRecords} />
+      <button className="input-button start-button" onClick={onClose}>
+        Back
+      </button>
+    </>
+  );
+};
+
+export default Stats;
@@ -0,0 +1,60 @@
+import type { Ref } from "react";
+import "./Toasts.css";
+
+type ToastType = "error" | "info" | "success";
+
+interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+interface Toast {
+  id: number;
+  message: string;
+  type: ToastType;
+  action?: ToastAction;
+}
+
+interface ToastsProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+  ref?: Ref<HTMLDivElement>;
+}
+
+/**
+ * Shows notifications stacked at the bottom of the screen, above any overlay.
+ *
+ * @param toasts - The notifications to show, oldest first
+ * @param onDismiss - Called with the ID of a notification when it is closed or its action is used
+ * @param ref - The notification region, which keyboard focus can reach while an overlay is open
+ */
+const Toasts = ({ toasts, onDismiss, ref }: ToastsProps) => (
+  <div className="toasts" role="status" aria-live="polite" ref={ref}>
+    {toasts.map((toast) => (
+      <div className="toast" data-type={toast.type} key={toast.id}>
+        <p>{toast.message}</p>
+        {toast.action && (
+          <button
+            className="toast-action"
+            onClick={() => {
+              toast.action?.onClick();
+              onDismiss(toast.id);
+            }}
+          >
+            {toast.action.label}
+          </button>
+        )}
+        <button
+          className="toast-close"
+          aria-label="Dismiss"
+          onClick={() => onDismiss(toast.id)}
+        >
+          ×
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default Toasts;
+export type { Toast, ToastAction, ToastType };
@@ -0,0 +1,284 @@
+interface GameBoardAPIResponse {
+  id: number;
+  value: number[][];
+  difficulty: string | null;
+}
+
+interface HintAPIResponse {
+  parentCellIndex: number;
+  innerCellIndex: number;
+  hint: number;
+}
+
+interface SolveAPIResponse {
+  message?: string;
+  board?: number[][] | null;
+}
+
+type APIErrorKind = "network" | "timeout" | "http" | "invalid-response";
+
+interface APIError {
+  kind: APIErrorKind;
+  message: string;
+  status?: number;
+}
+
+type APIResult<T> = { ok: true; data: T } | { ok: false; error: APIError };
+
+interface RequestOptions {
+  method?: "GET" | "POST";
+  searchParams?: Record<string, string>;
+  body?: unknown;
+}
+
+// The server that hosts the game forwards /api to the backend (see index.js)
+const defaultAPIBaseURL = "/api";
+// A relative base URL is resolved against the page's origin
+const apiBaseURL = (
+  import.meta.env.VITE_API_BASE_URL || defaultAPIBaseURL
+).replace(/\/+$/, "");
+const requestTimeout = 10000;
+const maxGetRetries = 2;
+const retryDelay = 500;
+
+const isNumberInRange = (value: unknown, min: number, max: number) =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= min &&
+  value <= max;
+
+const isBoard = (value: unknown): value is number[][] =>
+  Array.isArray(value) &&
+  value.length === 9 &&
+  value.every(
+    (row) =>
+      Array.isArray(row) &&
+      row.length === 9 &&
+      row.every((cell) => isNumberInRange(cell, 0, 9))
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isGameBoardResponse = (data: unknown): data is GameBoardAPIResponse =>
+  isRecord(data) &&
+  typeof data.id === "number" &&
+  isBoard(data.value) &&
+  (data.difficulty === null || typeof data.difficulty === "string");
+
+const isHintResponse = (data: unknown): data is HintAPIResponse =>
+  isRecord(data) &&
+  isNumberInRange(data.parentCellIndex, 0, 8) &&
+  isNumberInRange(data.innerCellIndex, 0, 8) &&
+  isNumberInRange(data.hint, 1, 9);
+
+// Any successful response means the board is solved, so a response without a body is accepted
+const isSolveResponse = (data: unknown): data is SolveAPIResponse | undefined =>
+  data === undefined ||
+  (isRecord(data) &&
+    (data.message === undefined || typeof data.message === "string") &&
+    (data.board === null || data.board === undefined || isBoard(data.board)));
+
+/**
+ * Checks whether an error means the backend couldn't be reached, either directly or
+ * through the /api proxy, rather than the backend rejecting the request.
+ */
+const isUnreachableError = ({ kind, status }: APIError) =>
+  kind === "network" ||
+  kind === "timeout" ||
+  status === 502 ||
+  status === 503 ||
+  status === 504;
+
+const wait = (duration: number) =>
+  new Promise((resolve) => setTimeout(resolve, duration));
+
+/**
+ * Reads the message from an error response body, falling back to the status text.
+ */
+const readErrorMessage = async (response: Response) => {
+  try {
+    const data: unknown = await response.json();
+    if (isRecord(data) && typeof data.message === "string") return data.message;
+  } catch {
+    // The body isn't JSON, so there's no message to read
+  }
+  return response.statusText || `Request failed with status ${response.status}`;
+};
+
+/**
+ * Sends a single request to the backend, aborting it if it takes too long.
+ *
+ * @param url - The full URL to request
+ * @param options - The method and JSON body of the request
+ * @param validate - Checks that the response body has the expected shape
+ * @returns The validated response body, or the error that occurred
+ */
+const sendRequest = async <T>(
+  url: URL,
+  options: RequestOptions,
+  validate: (data: unknown) => data is T
+): Promise<APIResult<T>> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), requestTimeout);
+  try {
+    const response = await fetch(url, {
+      method: options.method ?? "GET",
+      headers:
+        options.body === undefined
+          ? undefined
+          : { "Content-Type": "application/json" },
+      body:
+        options.body === undefined ? undefined : JSON.stringify(options.body),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: {
+          kind: "http",
+          message: await readErrorMessage(response),
+          status: response.status,
+        },
+      };
+    }
+
+    const data: unknown = await response.json().catch(() => undefined);
+    if (!validate(data)) {
+      return {
+        ok: false,
+        error: {
+          kind: "invalid-response",
+          message: "Unexpected response from the server",
+          status: response.status,
+        },
+      };
+    }
+    return { ok: true, data };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return {
+        ok: false,
+        error: {
+          kind: "timeout",
+          message: "The server took too long to respond",
+        },
+      };
+    }
+    // fetch only rejects with a TypeError when the server can't be reached
+    return {
+      ok: false,
+      error: {
+        kind: "network",
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Sends a request to the backend API.
+ *
+ * GET requests are idempotent, so they are retried after network errors, timeouts and
+ * server errors (5xx). Other requests are sent once.
+ *
+ * @param path - The path of the endpoint, such as "/random"
+ * @param options - The method, query parameters and JSON body of the request
+ * @param validate - Checks that the response body has the expected shape
+ * @returns The validated response body, or the error from the last attempt
+ */
+const request = async <T>(
+  path: string,
+  options: RequestOptions,
+  validate: (data: unknown) => data is T
+): Promise<APIResult<T>> => {
+  const url = new URL(`${apiBaseURL}${path}`, window.location.origin);
+  for (const [name, value] of Object.entries(options.searchParams ?? {})) {
+    url.searchParams.append(name, value);
+  }
+
+  const attempts = (options.method ?? "GET") === "GET" ? maxGetRetries + 1 : 1;
+  let result = await sendRequest(url, options, validate);
+  for (let attempt = 1; attempt < attempts; attempt++) {
+    if (result.ok) break;
+    const { kind, status = 0 } = result.error;
+    const isRetryable =
+      kind === "network" || kind === "timeout" || status >= 500;
+    if (!isRetryable) break;
+    await wait(retryDelay * attempt);
+    result = await sendRequest(url, options, validate);
+  }
+  return result;
+};
+
+/**
+ * Fetches a random board of any difficulty.
+ */
+const fetchRandomBoard = () => request("/random", {}, isGameBoardResponse);
+
+/**
+ * Fetches today's board for a difficulty.
+ *
+ * @param difficulty - The difficulty of the daily board, such as "Easy"
+ */
+const fetchDailyBoard = (difficulty: string) =>
+  request("/daily", { searchParams: { difficulty } }, isGameBoardResponse);
+
+/**
+ * Asks the backend for the value of an empty cell.
+ *
+ * @param boardID - The ID of the board being played
+ * @param board - The board of givens and hints, where 0 represents an empty cell
+ * @returns The row (parentCellIndex), column (innerCellIndex) and value of the hint
+ */
+const fetchHint = (boardID: number, board: number[][]) =>
+  request(
+    "/hint",
+    { method: "POST", body: { boardID, board } },
+    isHintResponse
+  );
+
+/**
+ * Submits a filled board to the backend for validation.
+ *
+ * @param boardID - The ID of the board being played
+ * @param board - The filled board
+ * @returns Whether the board is solved. A board the backend rejects as unsolved is a
+ *          successful result of false rather than an error.
+ */
+const submitSolution = async (
+  boardID: number,
+  board: number[][]
+): Promise<APIResult<boolean>> => {
+  const result = await request(
+    "/solve",
+    { method: "POST", body: { boardID, board } },
+    isSolveResponse
+  );
+  if (result.ok) return { ok: true, data: true };
+  if (
+    result.error.kind === "http" &&
+    result.error.message === "Board not solved"
+  ) {
+    return { ok: true, data: false };
+  }
+  return result;
+};
+
+export {
+  fetchDailyBoard,
+  fetchHint,
+  fetchRandomBoard,
+  isUnreachableError,
+  submitSolution,
+};
+export type {
+  APIError,
+  APIErrorKind,
+  APIResult,
+  GameBoardAPIResponse,
+  HintAPIResponse,
+  SolveAPIResponse,
+};
@@ -0,0 +1,381 @@
+import { getCageErrors } from "./cages";
+import { arePeers } from "./solver";
+import type { Cage } from "./cages";
+import type { CellPosition } from "./solver";
+import type { Variant } from "./variants";
+
+interface Cell {
+  value: number;
+  locked: boolean;
+  notes: number[];
+  error: boolean;
+}
+
+type GameBoard = Cell[][];
+
+interface PlayerAction {
+  row: number;
+  col: number;
+  value: number | null;
+  notes: number[][][];
+}
+
+interface CellHighlight {
+  selected: boolean;
+  related: boolean;
+  relatedNumber: boolean;
+}
+
+const gridSize = 9;
+
+/**
+ * Applies an update to every cell of the board, returning a new board.
+ */
+const mapCells = (
+  board: GameBoard,
+  update: (cell: Cell, row: number, col: number) => Cell
+): GameBoard =>
+  board.map((boardRow, row) =>
+    boardRow.map((cell, col) => update(cell, row, col))
+  );
+
+/**
+ * Flags every filled cell that repeats a number in its row, column or 3x3 box, or in a
+ * cell the variant's rules keep it apart from.
+ *
+ * @param board - The board to check
+ * @param variant - The variant being played. Defaults to classic.
+ * @returns A new board with the error flag of every cell brought up to date
+ */
+const markConflicts = (
+  board: GameBoard,
+  variant: Variant = "classic"
+): GameBoard =>
+  mapCells(board, (cell, row, col) => {
+    const error =
+      cell.value !== 0 &&
+      board.some((boardRow, peerRow) =>
+        boardRow.some(
+          (peer, peerCol) =>
+            peer.value === cell.value &&
+            arePeers({ row, col }, { row: peerRow, col: peerCol }, variant)
+        )
+      );
+    return cell.error === error ? cell : { ...cell, error };
+  });
+
+/**
+ * Creates a board from a grid of numbers, locking every non-zero value as a given.
+ *
+ * @param grid - A 9x9 grid where 0 represents an empty cell
+ * @param variant - The variant being played. Defaults to classic.
+ * @returns The board
+ */
+const createBoard = (
+  grid: number[][],
+  variant: Variant = "classic"
+): GameBoard =>
+  markConflicts(
+    grid.map((gridRow) =>
+      gridRow.map((value) => ({
+        value,
+        locked: value !== 0,
+        notes: [],
+        error: false,
+      }))
+    ),
+    variant
+  );
+
+/**
+ * Checks that data read from outside the game, such as an imported file, is a 9x9 grid
+ * of numbers from 0 to 9.
+ *
+ * @param grid - The data to check
+ */
+const isGrid = (grid: unknown): grid is number[][] =>
+  Array.isArray(grid) &&
+  grid.length === gridSize &&
+  grid.every(
+    (row) =>
+      Array.isArray(row) &&
+      row.length === gridSize &&
+      row.every((value) => Number.isInteger(value) && value >= 0 && value <= 9)
+  );
+
+/**
+ * Creates an empty 9x9 board.
+ */
+const createEmptyBoard = () =>
+  createBoard(Array.from({ length: gridSize }, () => Array(gridSize).fill(0)));
+
+/**
+ * Retrieves the values on the board as a 2D array of numbers.
+ *
+ * @param board - The board to read
+ * @param includeUserInput - Whether to include the player's entries. If false, only
+ *                           locked values are included. Defaults to true.
+ * @returns A 9x9 grid where 0 represents an empty cell
+ */
+const getBoardValues = (board: GameBoard, includeUserInput: boolean = true) =>
+  board.map((boardRow) =>
+    boardRow.map((cell) => (includeUserInput || cell.locked ? cell.value : 0))
+  );
+
+/**
+ * Retrieves the candidate notes of every cell on the board.
+ *
+ * @param board - The board to read
+ * @returns A 9x9 grid of candidate number lists
+ */
+const getBoardNotes = (board: GameBoard) =>
+  board.map((boardRow) => boardRow.map((cell) => cell.notes));
+
+/**
+ * Fills in the player's entries and notes on a board of givens, such as when restoring
+ * a saved game.
+ *
+ * @param board - The board holding the locked cells
+ * @param values - A 9x9 grid of values, where values in locked cells are ignored
+ * @param notes - A 9x9 grid of candidate notes
+ * @param variant - The variant being played. Defaults to classic.
+ * @returns A new board with the entries and notes filled in
+ */
+const fillPlayerEntries = (
+  board: GameBoard,
+  values: number[][],
+  notes: number[][][],
+  variant: Variant = "classic"
+) =>
+  markConflicts(
+    mapCells(board, (cell, row, col) =>
+      cell.locked
+        ? cell
+        : { ...cell, value: values[row][col], notes: notes[row][col] }
+    ),
+    variant
+  );
+
+/**
+ * Sets the value of a cell. Placing a number clears the notes of the cell and, unless
+ * turned off, removes the number from the notes of every cell in the same row, column
+ * and 3x3 box, and of the cells the variant's rules keep it apart from; clearing the
+ * cell (0) clears its notes.
+ *
+ * @param board - The current board
+ * @param row - The row index (0-8) of the cell
+ * @param col - The column index (0-8) of the cell
+ * @param value - The value to place, or 0 to clear the cell
+ * @param locked - Whether to lock the cell, as for hints. Defaults to false.
+ * @param removePeerNotes - Whether to remove the number from the notes of the cell's
+ *                          peers. Defaults to true.
+ * @param variant - The variant being played. Defaults to classic.
+ * @returns A new board with the value placed
+ */
+const setCellValue = (
+  board: GameBoard,
+  row: number,
+  col: number,
+  value: number,
+  locked: boolean = false,
+  removePeerNotes: boolean = true,
+  variant: Variant = "classic"
+) =>
+  markConflicts(
+    mapCells(board, (cell, cellRow, cellCol) => {
+      if (cellRow === row && cellCol === col) {
+        return { ...cell, value, locked: cell.locked || locked, notes: [] };
+      }
+      if (
+        value !== 0 &&
+        removePeerNotes &&
+        cell.notes.includes(value) &&
+        arePeers({ row, col }, { row: cellRow, col: cellCol }, variant)
+      ) {
+        return { ...cell, notes: cell.notes.filter((note) => note !== value) };
+      }
+      return cell;
+    }),
+    variant
+  );
+
+/**
+ * Toggles a candidate note on a single cell.
+ *
+ * @param board - The current board
+ * @param row - The row index (0-8) of the cell
+ * @param col - The column index (0-8) of the cell
+ * @param number - The candidate number to add or remove
+ * @returns A new board with the candidate toggled, kept in ascending order
+ */
+const toggleCellNote = (
+  board: GameBoard,
+  row: number,
+  col: number,
+  number: number
+) =>
+  mapCells(board, (cell, cellRow, cellCol) => {
+    if (cellRow !== row || cellCol !== col) return cell;
+    return {
+      ...cell,
+      notes: cell.notes.includes(number)
+        ? cell.notes.filter((note) => note !== number)
+        : [...cell.notes, number].sort((a, b) => a - b),
+    };
+  });
+
+/**
+ * Reverts a cell to the state recorded in a player action, restoring its value and the
+ * notes of the whole board exactly as they were.
+ *
+ * @param board - The current board
+ * @param action - The recorded state to restore
+ * @param variant - The variant being played. Defaults to classic.
+ * @returns A new board with the action's state restored
+ */
+const restorePlayerAction = (
+  board: GameBoard,
+  action: PlayerAction,
+  variant: Variant = "classic"
+) =>
+  markConflicts(
+    mapCells(board, (cell, row, col) => {
+      const notes = cell.locked ? cell.notes : action.notes[row][col];
+      if (row === action.row && col === action.col) {
+        return { ...cell, value: action.value ?? 0, notes };
+      }
+      return cell.notes === notes ? cell : { ...cell, notes };
+    }),
+    variant
+  );
+
+/**
+ * Records the current state of a cell and the notes of the board, so it can be
+ * restored later by restorePlayerAction.
+ *
+ * @param board - The current board
+ * @param row - The row index (0-8) of the cell
+ * @param col - The column index (0-8) of the cell
+ * @returns The recorded state
+ */
+const recordPlayerAction = (
+  board: GameBoard,
+  row: number,
+  col: number
+): PlayerAction => ({
+  row,
+  col,
+  value: board[row][col].value || null,
+  notes: getBoardNotes(board),
+});
+
+/**
+ * Checks whether every cell on the board is filled and free of conflicts.
+ *
+ * @param board - The board to check
+ * @param cages - The cages of a Killer puzzle, which must also add up and not repeat a
+ *                number. Defaults to none.
+ */
+const isBoardComplete = (board: GameBoard, cages: Cage[] = []) =>
+  board.every((boardRow) =>
+    boardRow.every((cell) => cell.value !== 0 && !cell.error)
+  ) &&
+  !getCageErrors(getBoardValues(board), cages).some((row) => row.some(Boolean));
+
+/**
+ * Works out how a cell should be highlighted for the current selection.
+ *
+ * @param board - The current board
+ * @param selectedCell - The selected cell, if any
+ * @param row - The row index (0-8) of the cell to highlight
+ * @param col - The column index (0-8) of the cell to highlight
+ * @param variant - The variant being played. Defaults to classic.
+ * @returns Whether the cell is the selected cell, shares a row, column, 3x3 box or
+ *          variant region with it, or holds the same number as it
+ */
+const getCellHighlight = (
+  board: GameBoard,
+  selectedCell: CellPosition | null,
+  row: number,
+  col: number,
+  variant: Variant = "classic"
+): CellHighlight => {
+  if (!selectedCell) {
+    return { selected: false, related: false, relatedNumber: false };
+  }
+  const selected = selectedCell.row === row && selectedCell.col === col;
+  const selectedValue = board[selectedCell.row][selectedCell.col].value;
+  return {
+    selected,
+    related: arePeers(selectedCell, { row, col }, variant),
+    relatedNumber:
+      !selected &&
+      selectedValue !== 0 &&
+      board[row][col].value === selectedValue,
+  };
+};
+
+/**
+ * Names a cell for screen readers, such as "Row 3, column 4".
+ *
+ * @param row - The row index (0-8) of the cell
+ * @param col - The column index (0-8) of the cell
+ */
+const formatCellPosition = (row: number, col: number) =>
+  `Row ${row + 1}, column ${col + 1}`;
+
+/**
+ * Describes a cell for screen readers, such as "Row 3, column 4, 5, given" or
+ * "Row 1, column 2, empty, notes 3 and 7".
+ *
+ * @param board - The current board
+ * @param row - The row index (0-8) of the cell
+ * @param col - The column index (0-8) of the cell
+ * @param showConflicts - Whether to say if the cell conflicts with another. Defaults to true.
+ */
+const describeCell = (
+  board: GameBoard,
+  row: number,
+  col: number,
+  showConflicts: boolean = true
+) => {
+  const cell = board[row][col];
+  const details = [formatCellPosition(row, col)];
+  if (cell.value) {
+    details.push(cell.value.toString());
+    if (cell.locked) details.push("given");
+    if (cell.error && showConflicts) details.push("conflict");
+  } else {
+    details.push("empty");
+    if (cell.notes.length > 0) {
+      const notes = [...cell.notes].sort((a, b) => a - b);
+      details.push(
+        `notes ${
+          notes.length > 1
+            ? `${notes.slice(0, -1).join(", ")} and ${notes[notes.length - 1]}`
+            : notes[0]
+        }`
+      );
+    }
+  }
+  return details.join(", ");
+};
+
+export {
+  createBoard,
+  createEmptyBoard,
+  describeCell,
+  fillPlayerEntries,
+  formatCellPosition,
+  getBoardNotes,
+  getBoardValues,
+  getCellHighlight,
+  isBoardComplete,
+  isGrid,
+  markConflicts,
+  recordPlayerAction,
+  restorePlayerAction,
+  setCellValue,
+  toggleCellNote,
+};
+export type { Cell, CellHighlight, GameBoard, PlayerAction };
@@ -0,0 +1,143 @@
+import type { CellPosition } from "./solver";
+
+/**
+ * A Killer Sudoku cage: its cells add up to the sum, and can't repeat a number.
+ */
+interface Cage {
+  sum: number;
+  cells: CellPosition[];
+}
+
+const gridSize = 9;
+
+/**
+ * Finds the index of the cage a cell belongs to.
+ *
+ * @returns The index of the cage in the list, or -1 if the cell isn't in one
+ */
+const findCageIndex = (cages: Cage[], row: number, col: number) =>
+  cages.findIndex((cage) =>
+    cage.cells.some((cell) => cell.row === row && cell.col === col)
+  );
+
+/**
+ * Finds the cell of a cage its sum is written in, which is the first of its cells in
+ * reading order.
+ */
+const getCageLabelCell = (cage: Cage) =>
+  cage.cells.reduce((first, cell) =>
+    cell.row < first.row || (cell.row === first.row && cell.col < first.col)
+      ? cell
+      : first
+  );
+
+/**
+ * Lists the sets of different numbers that can fill a cage, for the cage-sum helper.
+ *
+ * @param sum - The sum of the cage
+ * @param size - The number of cells in the cage
+ * @returns Each combination in ascending order
+ *
+ * @example
+ * // Returns [[1, 5], [2, 4]]
+ * getCageCombinations(6, 2);
+ */
+const getCageCombinations = (sum: number, size: number): number[][] => {
+  const combinations: number[][] = [];
+  const search = (start: number, combination: number[], total: number) => {
+    if (combination.length === size) {
+      if (total === sum) combinations.push(combination);
+      return;
+    }
+    for (
+      let digit = start;
+      digit <= gridSize && total + digit <= sum;
+      digit++
+    ) {
+      search(digit + 1, [...combination, digit], total + digit);
+    }
+  };
+  search(1, [], 0);
+  return combinations;
+};
+
+/**
+ * Works out which cells break the rules of their cage: numbers repeated in a cage, and
+ * every number of a cage whose numbers add up to more than its sum, or to less once
+ * it's full.
+ *
+ * @param values - A 9x9 grid where 0 represents an empty cell
+ * @param cages - The cages of the puzzle
+ * @returns A 9x9 grid that is true for every cell breaking its cage's rules
+ */
+const getCageErrors = (values: number[][], cages: Cage[]) => {
+  const errors = values.map((row) => row.map(() => false));
+  cages.forEach(({ sum, cells }) => {
+    const filledCells = cells.filter((cell) => values[cell.row][cell.col]);
+    const total = filledCells.reduce(
+      (cageTotal, cell) => cageTotal + values[cell.row][cell.col],
+      0
+    );
+    const wrongSum =
+      total > sum || (filledCells.length === cells.length && total !== sum);
+    filledCells.forEach((cell) => {
+      const value = values[cell.row][cell.col];
+      const repeated = filledCells.some(
+        (other) => other !== cell && values[other.row][other.col] === value
+      );
+      if (wrongSum || repeated) errors[cell.row][cell.col] = true;
+    });
+  });
+  return errors;
+};
+
+/**
+ * Checks that data read from outside the game, such as an imported file, is a list of
+ * cages that covers every cell of the board exactly once.
+ *
+ * @param cages - The data to check
+ */
+const isCageList = (cages: unknown): cages is Cage[] => {
+  if (!Array.isArray(cages)) return false;
+  const covered = new Set<number>();
+  const isCage = (cage: unknown) => {
+    if (typeof cage !== "object" || cage === null) return false;
+    const { sum, cells } = cage as Record<string, unknown>;
+    if (
+      !Number.isInteger(sum) ||
+      !Array.isArray(cells) ||
+      cells.length === 0 ||
+      cells.length > gridSize
+    ) {
+      return false;
+    }
+    return cells.every((cell: unknown) => {
+      if (typeof cell !== "object" || cell === null) return false;
+      const { row, col } = cell as Record<string, unknown>;
+      if (
+        !Number.isInteger(row) ||
+        !Number.isInteger(col) ||
+        (row as number) < 0 ||
+        (row as number) >= gridSize ||
+        (col as number) < 0 ||
+        (col as number) >= gridSize
+      ) {
+        return false;
+      }
+      const index = (row as number) * gridSize + (col as number);
+      if (covered.has(index)) return false;
+      covered.add(index);
+      return true;
+    });
+  };
+  return cages.every(isCage) && covered.size === gridSize * gridSize;
+};
+
+export {
+  findCageIndex,
+  getCageCombinations,
+  getCageErrors,
+  getCageLabelCell,
+  isCageList,
+};
+export type { Cage };
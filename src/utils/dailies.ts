@@ -0,0 +1,146 @@
+const dailyCompletionsStorageKey = "waffle-daily-completions";
+const millisecondsPerDay = 24 * 60 * 60 * 1000;
+
+interface DailyCompletion {
+  date: string;
+  difficulty: string;
+  boardID: number;
+  time: number;
+}
+
+interface DailyStreaks {
+  current: number;
+  longest: number;
+}
+
+/**
+ * Gets the date of the daily puzzles being served at a given time, as YYYY-MM-DD.
+ *
+ * @param date - The time to get the daily date of. Defaults to now.
+ * @remarks
+ * Daily puzzles change over at midnight UTC rather than local midnight, so that the
+ * date matches the puzzle the server hands out.
+ */
+const getDailyDate = (date: Date = new Date()) =>
+  date.toISOString().slice(0, 10);
+
+/**
+ * Adds a number of days to a daily date.
+ *
+ * @param date - The daily date, as YYYY-MM-DD
+ * @param days - The number of days to add, which may be negative
+ * @returns The resulting daily date, as YYYY-MM-DD
+ */
+const addDays = (date: string, days: number) =>
+  getDailyDate(new Date(Date.parse(date) + days * millisecondsPerDay));
+
+/**
+ * Loads the daily puzzles the player has solved from localStorage.
+ *
+ * @returns The completions, or an empty list if there are none or they could not be read
+ */
+const loadDailyCompletions = (): DailyCompletion[] => {
+  try {
+    const completions = localStorage.getItem(dailyCompletionsStorageKey);
+    if (!completions) return [];
+    const parsedCompletions: unknown = JSON.parse(completions);
+    return Array.isArray(parsedCompletions) ? parsedCompletions : [];
+  } catch (error) {
+    console.error("Error loading daily completions:", error);
+    return [];
+  }
+};
+
+/**
+ * Records a solved daily puzzle in localStorage. If the puzzle had already been solved,
+ * only the faster of the two times is kept.
+ *
+ * @param completion - The solved daily puzzle
+ * @returns The updated completions
+ */
+const recordDailyCompletion = (completion: DailyCompletion) => {
+  const completions = loadDailyCompletions();
+  const previous = findDailyCompletion(
+    completions,
+    completion.date,
+    completion.difficulty
+  );
+  if (previous && previous.time <= completion.time) return completions;
+
+  const updatedCompletions = [
+    ...completions.filter((existing) => existing !== previous),
+    completion,
+  ];
+  try {
+    localStorage.setItem(
+      dailyCompletionsStorageKey,
+      JSON.stringify(updatedCompletions)
+    );
+  } catch (error) {
+    console.error("Error saving daily completion:", error);
+  }
+  return updatedCompletions;
+};
+
+/**
+ * Finds the player's completion of a daily puzzle.
+ *
+ * @param completions - The player's daily completions
+ * @param date - The date of the daily puzzle, as YYYY-MM-DD
+ * @param difficulty - The difficulty of the daily puzzle
+ * @returns The completion, or undefined if that puzzle hasn't been solved
+ */
+const findDailyCompletion = (
+  completions: DailyCompletion[],
+  date: string,
+  difficulty: string
+) =>
+  completions.find(
+    (completion) =>
+      completion.date === date && completion.difficulty === difficulty
+  );
+
+/**
+ * Calculates the player's streaks of consecutive days with at least one daily puzzle solved.
+ *
+ * @param completions - The player's daily completions
+ * @param today - Today's daily date, as YYYY-MM-DD. Defaults to the current date.
+ * @returns The current and longest streaks, in days
+ * @remarks
+ * The current streak is still alive if the player has solved yesterday's puzzle but not
+ * yet today's, so it doesn't drop to zero every midnight.
+ */
+const calculateStreaks = (
+  completions: DailyCompletion[],
+  today: string = getDailyDate()
+): DailyStreaks => {
+  const solvedDates = new Set(completions.map(({ date }) => date));
+
+  let longest = 0;
+  for (const date of solvedDates) {
+    // Only count from the first day of each streak
+    if (solvedDates.has(addDays(date, -1))) continue;
+    let length = 1;
+    while (solvedDates.has(addDays(date, length))) length++;
+    longest = Math.max(longest, length);
+  }
+
+  let current = 0;
+  let date = solvedDates.has(today) ? today : addDays(today, -1);
+  while (solvedDates.has(date)) {
+    current++;
+    date = addDays(date, -1);
+  }
+
+  return { current, longest };
+};
+
+export {
+  addDays,
+  calculateStreaks,
+  findDailyCompletion,
+  getDailyDate,
+  loadDailyCompletions,
+  recordDailyCompletion,
+};
+export type { DailyCompletion, DailyStreaks };
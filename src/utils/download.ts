@@ -0,0 +1,17 @@
+/**
+ * Saves a file to the player's device through the browser's download prompt.
+ *
+ * @param data - The contents of the file
+ * @param fileName - The suggested name of the file
+ */
+const downloadFile = (data: Blob, fileName: string) => {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+};
+
+export { downloadFile };
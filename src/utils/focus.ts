@@ -0,0 +1,70 @@
+const focusableSelector = [
+  "a[href]",
+  "button:not(:disabled)",
+  "input:not(:disabled)",
+  "select:not(:disabled)",
+  "textarea:not(:disabled)",
+  '[tabindex]:not([tabindex="-1"])',
+].join(", ");
+
+/**
+ * Finds the elements inside a container that can be reached with the Tab key, in tab order.
+ *
+ * @param container - The element to search
+ * @remarks Elements that aren't rendered, such as the hidden file input inside its label, are skipped.
+ */
+const getFocusableElements = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(focusableSelector)).filter(
+    (element) => element.getClientRects().length > 0
+  );
+
+/**
+ * Moves focus into a container, to its first focusable element, or to the container
+ * itself if it has none (such as the loading overlay).
+ *
+ * @param container - The element to focus
+ */
+const focusFirstElement = (container: HTMLElement) => {
+  const [firstElement] = getFocusableElements(container);
+  if (firstElement) {
+    firstElement.focus();
+    return;
+  }
+  container.tabIndex = -1;
+  container.focus();
+};
+
+/**
+ * Keeps focus inside a set of containers when Tab or Shift+Tab is pressed, wrapping from
+ * the last focusable element to the first and back.
+ *
+ * @param event - The keydown event of the Tab key
+ * @param containers - The elements focus is kept in, in tab order, such as an open overlay
+ *                     followed by the notifications shown above it
+ */
+const trapFocus = (event: KeyboardEvent, containers: HTMLElement[]) => {
+  const focusableElements = containers.flatMap(getFocusableElements);
+  const firstElement = focusableElements[0];
+  const lastElement = focusableElements[focusableElements.length - 1];
+  const activeElement = document.activeElement;
+  const focusIsInside =
+    activeElement instanceof Node &&
+    containers.some((container) => container.contains(activeElement));
+
+  if (!firstElement) {
+    event.preventDefault();
+    return;
+  }
+  if (event.shiftKey && (activeElement === firstElement || !focusIsInside)) {
+    event.preventDefault();
+    lastElement.focus();
+  } else if (
+    !event.shiftKey &&
+    (activeElement === lastElement || !focusIsInside)
+  ) {
+    event.preventDefault();
+    firstElement.focus();
+  }
+};
+
+export { focusFirstElement, getFocusableElements, trapFocus };
@@ -0,0 +1,231 @@
+import {
+  copyBoard,
+  countSolutions,
+  difficultyOrder,
+  gradeBoard,
+  searchSolutions,
+} from "./solver";
+import { variantOrder } from "./variants";
+import type { Cage } from "./cages";
+import type { Board, CellPosition, Difficulty } from "./solver";
+import type { Variant } from "./variants";
+
+interface GeneratedPuzzle {
+  id: number;
+  value: number[][];
+  difficulty: Difficulty;
+  cages?: Cage[];
+}
+
+const maxPuzzleID = 9999;
+const maxGenerationAttempts = 25;
+
+// The fewest givens a generated puzzle of each difficulty is allowed to have
+const minimumGivens: Record<Difficulty, number> = {
+  Easy: 36,
+  Medium: 28,
+  Hard: 17,
+};
+
+// The fewest givens a generated Killer puzzle of each difficulty is allowed to have, as
+// its cages give away the rest
+const minimumKillerGivens: Record<Difficulty, number> = {
+  Easy: 24,
+  Medium: 10,
+  Hard: 0,
+};
+
+const minCageSize = 2;
+const maxCageSize = 5;
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32).
+ *
+ * @param seed - The seed to start from
+ * @returns A function returning numbers in the range [0, 1)
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Lists the indexes (0-80) of the cells of the board in random order.
+ *
+ * @param random - The random number source
+ */
+const shuffleCells = (random: () => number) => {
+  const cellOrder = Array.from({ length: 81 }, (_, index) => index);
+  for (let i = cellOrder.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [cellOrder[i], cellOrder[j]] = [cellOrder[j], cellOrder[i]];
+  }
+  return cellOrder;
+};
+
+/**
+ * Divides a solved board into Killer cages, growing each cage from a random cell into
+ * neighbouring cells until it reaches a random size.
+ *
+ * A cell only joins a cage if its number isn't in the cage yet, so cages can end up
+ * smaller than planned, down to a single cell.
+ *
+ * @param solution - A complete, valid board
+ * @param random - The random number source
+ * @returns Cages covering every cell, with the sums of the solution's numbers
+ */
+const createCages = (solution: Board, random: () => number): Cage[] => {
+  const caged = solution.map((row) => row.map(() => false));
+  const cages: Cage[] = [];
+  for (const cellIndex of shuffleCells(random)) {
+    const start = { row: Math.floor(cellIndex / 9), col: cellIndex % 9 };
+    if (caged[start.row][start.col]) continue;
+    const size =
+      minCageSize + Math.floor(random() * (maxCageSize - minCageSize + 1));
+    const cells: CellPosition[] = [start];
+    caged[start.row][start.col] = true;
+    while (cells.length < size) {
+      const options = cells
+        .flatMap(({ row, col }) => [
+          { row: row - 1, col },
+          { row: row + 1, col },
+          { row, col: col - 1 },
+          { row, col: col + 1 },
+        ])
+        .filter(
+          ({ row, col }) =>
+            row >= 0 &&
+            row < 9 &&
+            col >= 0 &&
+            col < 9 &&
+            !caged[row][col] &&
+            !cells.some(
+              (cell) => solution[cell.row][cell.col] === solution[row][col]
+            )
+        );
+      if (options.length === 0) break;
+      const next = options[Math.floor(random() * options.length)];
+      cells.push(next);
+      caged[next.row][next.col] = true;
+    }
+    cages.push({
+      sum: cells.reduce((total, { row, col }) => total + solution[row][col], 0),
+      cells,
+    });
+  }
+  return cages;
+};
+
+/**
+ * Carves a puzzle out of a solved board by removing givens in random order.
+ *
+ * A given is only removed if the puzzle still has exactly one solution and is not
+ * graded harder than the target difficulty, and removal stops at the minimum number
+ * of givens for that difficulty.
+ *
+ * @param solution - A complete, valid board
+ * @param difficulty - The target difficulty
+ * @param random - The random number source
+ * @param variant - The variant whose extra rules the puzzle follows
+ * @param cages - The cages of a Killer puzzle, if any. Killer puzzles aren't graded, as
+ *                the solving techniques don't use cages, so their difficulty comes from
+ *                the number of givens alone.
+ * @returns The carved puzzle, with 0 for empty cells
+ */
+const carvePuzzle = (
+  solution: Board,
+  difficulty: Difficulty,
+  random: () => number,
+  variant: Variant,
+  cages: Cage[] = []
+) => {
+  const puzzle = copyBoard(solution);
+  const isKiller = variant === "killer";
+  const minimum = (isKiller ? minimumKillerGivens : minimumGivens)[difficulty];
+  const targetIndex = difficultyOrder.indexOf(difficulty);
+  let givens = 81;
+  for (const cellIndex of shuffleCells(random)) {
+    if (givens <= minimum) break;
+    const row = Math.floor(cellIndex / 9);
+    const col = cellIndex % 9;
+    const value = puzzle[row][col];
+    puzzle[row][col] = 0;
+
+    if (
+      countSolutions(puzzle, 2, variant, cages) !== 1 ||
+      (!isKiller &&
+        difficultyOrder.indexOf(gradeBoard(puzzle, variant).difficulty) >
+          targetIndex)
+    ) {
+      puzzle[row][col] = value;
+      continue;
+    }
+    givens--;
+  }
+  return puzzle;
+};
+
+/**
+ * Picks a random puzzle ID for {@link generatePuzzle}.
+ */
+const createPuzzleID = () => Math.floor(Math.random() * maxPuzzleID) + 1;
+
+/**
+ * Generates a Sudoku puzzle with exactly one solution without contacting the backend.
+ *
+ * Puzzles are graded by the solving techniques they need (see gradeBoard) and
+ * regenerated until one of the requested difficulty is found. The puzzle ID doubles
+ * as the seed, so the same ID always produces the same puzzle.
+ *
+ * @param difficulty - The difficulty of the puzzle to generate
+ * @param id - The puzzle ID and seed. Defaults to a random ID.
+ * @param variant - The variant whose extra rules the puzzle follows. Defaults to classic.
+ * @returns A puzzle in the same shape as the backend's board response
+ *
+ * @remarks
+ * Each variant gets its own range of seeds after the classic ones, so classic puzzle
+ * IDs keep producing the puzzles they always have. Killer puzzles come with the cages
+ * they were carved with.
+ */
+const generatePuzzle = (
+  difficulty: Difficulty,
+  id: number = createPuzzleID(),
+  variant: Variant = "classic"
+): GeneratedPuzzle => {
+  const random = createRandom(
+    (variantOrder.indexOf(variant) * (maxPuzzleID + 1) + id) *
+      difficultyOrder.length +
+      difficultyOrder.indexOf(difficulty)
+  );
+  const emptyBoard = Array.from({ length: 9 }, () => Array(9).fill(0));
+
+  if (variant === "killer") {
+    const { solution } = searchSolutions(emptyBoard, 1, random);
+    if (solution) {
+      const cages = createCages(solution, random);
+      const value = carvePuzzle(solution, difficulty, random, variant, cages);
+      return { id, value, difficulty, cages };
+    }
+  }
+
+  let puzzle: Board = emptyBoard;
+  let grade = difficulty;
+  for (let attempt = 0; attempt < maxGenerationAttempts; attempt++) {
+    const { solution } = searchSolutions(emptyBoard, 1, random, variant);
+    if (!solution) continue;
+    puzzle = carvePuzzle(solution, difficulty, random, variant);
+    grade = gradeBoard(puzzle, variant).difficulty;
+    if (grade === difficulty) break;
+  }
+
+  return { id, value: puzzle, difficulty: grade };
+};
+
+export { createPuzzleID, generatePuzzle };
+export type { GeneratedPuzzle };
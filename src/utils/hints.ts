@@ -0,0 +1,121 @@
+import { applyStep, findNextStep, getCandidateMasks } from "./solver";
+import type { Board, CellValue, House, SolverStep } from "./solver";
+import type { Variant } from "./variants";
+
+interface LogicalHint {
+  placement: CellValue;
+  step: SolverStep;
+  precedingSteps: SolverStep[];
+}
+
+/**
+ * Names a house the way players count them, starting from 1.
+ *
+ * @example
+ * // Returns "box 5"
+ * describeHouse({ type: "box", index: 4 });
+ */
+const describeHouse = (house: House) => `${house.type} ${house.index + 1}`;
+
+/**
+ * Joins a list of words into a readable phrase.
+ *
+ * @example
+ * // Returns "4, 6 and 7"
+ * joinWords(["4", "6", "7"]);
+ */
+const joinWords = (words: string[]) =>
+  words.length > 1
+    ? `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`
+    : words.join("");
+
+/**
+ * Explains a solver step in plain language, naming the technique and the houses involved.
+ *
+ * @param step - The step to explain
+ * @returns A sentence such as "Hidden single: 7 can only go here in box 5"
+ */
+const describeStep = (step: SolverStep) => {
+  const [firstHouse, secondHouse] = step.houses;
+  const digits = joinWords(step.digits.map((digit) => digit.toString()));
+
+  switch (step.technique) {
+    case "Naked single":
+      return `Naked single: ${digits} is the only number left that fits here`;
+    case "Hidden single":
+      return `Hidden single: ${digits} can only go here in ${describeHouse(
+        firstHouse
+      )}`;
+    case "Pointing pair":
+      return `Pointing pair: in ${describeHouse(
+        firstHouse
+      )}, ${digits} can only go in ${describeHouse(
+        secondHouse
+      )}, so it can be removed from the rest of ${describeHouse(secondHouse)}`;
+    case "Box/line reduction":
+      return `Box/line reduction: in ${describeHouse(
+        firstHouse
+      )}, ${digits} can only go in ${describeHouse(
+        secondHouse
+      )}, so it can be removed from the rest of ${describeHouse(secondHouse)}`;
+    case "Naked pair":
+      return `Naked pair: two cells in ${describeHouse(
+        firstHouse
+      )} can only be ${digits.replace(
+        " and ",
+        " or "
+      )}, so those numbers can be removed from the rest of ${describeHouse(
+        firstHouse
+      )}`;
+    case "Hidden pair":
+      return `Hidden pair: ${digits} can only go in the same two cells of ${describeHouse(
+        firstHouse
+      )}, so every other number can be removed from those cells`;
+    case "X-Wing": {
+      const baseType = `${firstHouse.type}s`;
+      const coverType = `${step.houses[2].type}s`;
+      return `X-Wing: in ${baseType} ${firstHouse.index + 1} and ${
+        secondHouse.index + 1
+      }, ${digits} can only go in ${coverType} ${step.houses[2].index + 1} and ${
+        step.houses[3].index + 1
+      }, so it can be removed from the rest of those ${coverType}`;
+    }
+  }
+};
+
+/**
+ * Finds the next number that can be placed by logic alone.
+ *
+ * Entries that don't match the solution are ignored, then solving techniques are
+ * applied from easiest to hardest until one of them places a number. Any eliminations
+ * needed along the way are returned so the hint can explain them too.
+ *
+ * @param board - The current board, including the player's entries
+ * @param solution - The solution of the board
+ * @param variant - The variant whose extra rules also rule out candidates
+ * @returns The placement with the step that found it, or null if the techniques get stuck
+ */
+const findLogicalHint = (
+  board: Board,
+  solution: Board,
+  variant: Variant = "classic"
+): LogicalHint | null => {
+  const workingBoard = board.map((boardRow, row) =>
+    boardRow.map((value, col) => (value === solution[row][col] ? value : 0))
+  );
+  const candidates = getCandidateMasks(workingBoard, variant);
+  const precedingSteps: SolverStep[] = [];
+
+  let step = findNextStep(workingBoard, candidates);
+  while (step && !step.placement) {
+    precedingSteps.push(step);
+    applyStep(workingBoard, candidates, step, variant);
+    step = findNextStep(workingBoard, candidates);
+  }
+
+  if (!step?.placement) return null;
+  return { placement: step.placement, step, precedingSteps };
+};
+
+export { describeHouse, describeStep, findLogicalHint };
+export type { LogicalHint };
@@ -0,0 +1,447 @@
+import { isGrid } from "./board";
+import { isCageList } from "./cages";
+import { parseReplay } from "./replay";
+import { defaultSettings } from "./settings";
+import { countSolutions, isBoardValid } from "./solver";
+import type { Cage } from "./cages";
+import type { Replay } from "./replay";
+import type { SavedGame } from "./savedGame";
+import type { Board } from "./solver";
+import { isVariant } from "./variants";
+import type { Variant } from "./variants";
+
+type ImportedPuzzle =
+  | { kind: "grid"; grid: Board; hasUniqueSolution: boolean; cages?: Cage[] }
+  | { kind: "save"; game: SavedGame }
+  | { kind: "replay"; replay: Replay };
+
+type PuzzleImportResult =
+  { ok: true; data: ImportedPuzzle } | { ok: false; error: string };
+
+const saveFormat = "waffle-sudoku-save";
+const saveFormatVersion = 1;
+const killerFormat = "waffle-sudoku-killer";
+const killerFormatVersion = 1;
+const blankCharacters = ".0_*";
+// The characters naming the cages of a Killer puzzle in a link, one per cage
+const cageCharacters =
+  "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/**
+ * Formats a board as a single line of 81 characters, reading left to right and top to
+ * bottom, with "." for empty cells.
+ *
+ * @param grid - A 9x9 board where 0 represents an empty cell
+ */
+const toPuzzleString = (grid: Board) =>
+  grid
+    .flat()
+    .map((value) => (value ? value.toString() : "."))
+    .join("");
+
+/**
+ * Formats a board in the SadMan Sudoku .sdk format: nine lines of nine characters, with
+ * "." for empty cells.
+ *
+ * @param grid - A 9x9 board where 0 represents an empty cell
+ */
+const toSDK = (grid: Board) =>
+  grid
+    .map((row) => row.map((value) => (value ? value.toString() : ".")).join(""))
+    .join("\n") + "\n";
+
+/**
+ * Formats a board in the Simple Sudoku .ss format, which is the .sdk format with "|"
+ * between boxes and a line of dashes between bands.
+ *
+ * @param grid - A 9x9 board where 0 represents an empty cell
+ */
+const toSimpleSudoku = (grid: Board) =>
+  grid
+    .map((row, rowIndex) => {
+      const line = [0, 3, 6]
+        .map((start) =>
+          row
+            .slice(start, start + 3)
+            .map((value) => (value ? value.toString() : "."))
+            .join("")
+        )
+        .join("|");
+      return rowIndex === 3 || rowIndex === 6 ? `-----------\n${line}` : line;
+    })
+    .join("\n") + "\n";
+
+/**
+ * Formats a game in progress as JSON, including the player's entries, notes and history,
+ * so it can be continued on another device.
+ *
+ * @param game - The game to export
+ */
+const toSaveJSON = (game: SavedGame) =>
+  JSON.stringify(
+    { format: saveFormat, version: saveFormatVersion, game },
+    null,
+    2
+  );
+
+/**
+ * Formats a Killer puzzle as JSON, with its cages and any givens, as the grid formats
+ * can't hold cages.
+ *
+ * @param grid - A 9x9 board of givens where 0 represents an empty cell
+ * @param cages - The cages of the puzzle
+ */
+const toKillerJSON = (grid: Board, cages: Cage[]) =>
+  JSON.stringify(
+    {
+      format: killerFormat,
+      version: killerFormatVersion,
+      puzzle: { givens: grid, cages },
+    },
+    null,
+    2
+  );
+
+/**
+ * Formats the cages of a Killer puzzle for a link: a character naming the cage of each
+ * cell, reading left to right and top to bottom, followed by the sum of each cage as two
+ * digits.
+ *
+ * @param cages - The cages of the puzzle
+ * @returns The cages as text, or null if there are too many cages to name with one
+ *          character each
+ *
+ * @example
+ * // A board split into nine rows, each summing to 45, returns
+ * // "000000000111111111...888888888454545454545454545"
+ * toCageString(rowCages);
+ */
+const toCageString = (cages: Cage[]) => {
+  if (cages.length > cageCharacters.length) return null;
+  const layout = Array<string>(81).fill("");
+  cages.forEach((cage, index) =>
+    cage.cells.forEach(({ row, col }) => {
+      layout[row * 9 + col] = cageCharacters[index];
+    })
+  );
+  return (
+    layout.join("") +
+    cages.map((cage) => cage.sum.toString().padStart(2, "0")).join("")
+  );
+};
+
+/**
+ * Reads the cages of a Killer puzzle written by {@link toCageString}.
+ *
+ * @param text - The cages as text
+ * @returns The cages, or null if the text doesn't describe cages covering every cell
+ */
+const parseCageString = (text: string): Cage[] | null => {
+  const layout = text.slice(0, 81);
+  const sums = text.slice(81);
+  const cageIndexes = [...layout].map((character) =>
+    cageCharacters.indexOf(character)
+  );
+  const cageCount = Math.max(...cageIndexes) + 1;
+  if (
+    layout.length !== 81 ||
+    cageIndexes.includes(-1) ||
+    !/^\d*$/.test(sums) ||
+    sums.length !== cageCount * 2
+  ) {
+    return null;
+  }
+  const cages: Cage[] = Array.from({ length: cageCount }, (_, index) => ({
+    sum: Number(sums.slice(index * 2, index * 2 + 2)),
+    cells: [],
+  }));
+  cageIndexes.forEach((cageIndex, cell) =>
+    cages[cageIndex].cells.push({ row: Math.floor(cell / 9), col: cell % 9 })
+  );
+  return isCageList(cages) ? cages : null;
+};
+
+const isNotesGrid = (notes: unknown): notes is number[][][] =>
+  Array.isArray(notes) &&
+  notes.length === 9 &&
+  notes.every(
+    (row) =>
+      Array.isArray(row) &&
+      row.length === 9 &&
+      row.every(
+        (cellNotes) =>
+          Array.isArray(cellNotes) &&
+          cellNotes.every(
+            (note) => Number.isInteger(note) && note >= 1 && note <= 9
+          )
+      )
+  );
+
+/**
+ * Checks that a puzzle can be played: its givens don't break the rules and it has at
+ * least one solution.
+ *
+ * @returns The number of solutions (up to two), or an error message
+ */
+const checkPuzzle = (
+  grid: Board,
+  variant: Variant,
+  cages: Cage[] = []
+): { solutions: number } | { error: string } => {
+  if (!isBoardValid(grid, variant, cages)) {
+    return {
+      error:
+        variant === "classic"
+          ? "The puzzle repeats a number in a row, column or box."
+          : "The puzzle's givens break the rules of the variant.",
+    };
+  }
+  const solutions = countSolutions(grid, 2, variant, cages);
+  if (solutions === 0) return { error: "The puzzle has no solution." };
+  return { solutions };
+};
+
+/**
+ * Reads a Killer puzzle exported with {@link toKillerJSON}. The givens can be left out
+ * for puzzles that only have cages.
+ *
+ * @param data - The parsed JSON, whose format has already been checked
+ */
+const parseKillerPuzzle = (
+  data: Record<string, unknown>
+): PuzzleImportResult => {
+  const puzzle =
+    typeof data.puzzle === "object" && data.puzzle !== null
+      ? (data.puzzle as Record<string, unknown>)
+      : {};
+  if (!isCageList(puzzle.cages)) {
+    return {
+      ok: false,
+      error: "The Killer puzzle's cages must cover every cell exactly once.",
+    };
+  }
+  const grid =
+    puzzle.givens === undefined
+      ? Array.from({ length: 9 }, () => Array(9).fill(0))
+      : puzzle.givens;
+  if (!isGrid(grid)) {
+    return {
+      ok: false,
+      error: "The Killer puzzle's givens aren't a 9x9 grid.",
+    };
+  }
+  const { cages } = puzzle;
+  const check = checkPuzzle(grid, "killer", cages);
+  if ("error" in check) return { ok: false, error: check.error };
+  return {
+    ok: true,
+    data: {
+      kind: "grid",
+      grid,
+      hasUniqueSolution: check.solutions === 1,
+      cages,
+    },
+  };
+};
+
+/**
+ * Reads a game exported with {@link toSaveJSON}, a bare saved game, a replay exported
+ * with toReplayJSON, or a Killer puzzle.
+ */
+const parseSave = (text: string): PuzzleImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The save file isn't valid JSON." };
+  }
+  const replay = parseReplay(data);
+  if (replay) return { ok: true, data: { kind: "replay", replay } };
+  if (
+    typeof data === "object" &&
+    data !== null &&
+    "format" in data &&
+    data.format === killerFormat
+  ) {
+    return parseKillerPuzzle(data as Record<string, unknown>);
+  }
+  const game: Record<string, unknown> | null =
+    typeof data === "object" && data !== null
+      ? "game" in data && typeof data.game === "object" && data.game !== null
+        ? (data.game as Record<string, unknown>)
+        : (data as Record<string, unknown>)
+      : null;
+  if (!game || !isGrid(game.unsolvedBoard) || !isGrid(game.board)) {
+    return { ok: false, error: "The save file doesn't contain a board." };
+  }
+
+  const { unsolvedBoard, board } = game;
+  const givensMatch = unsolvedBoard.every((row, rowIndex) =>
+    row.every(
+      (value, colIndex) => !value || board[rowIndex][colIndex] === value
+    )
+  );
+  if (!givensMatch) {
+    return {
+      ok: false,
+      error: "The save file's entries don't match its puzzle.",
+    };
+  }
+  const variant = isVariant(game.variant) ? game.variant : "classic";
+  const cages =
+    variant === "killer" && isCageList(game.cages) ? game.cages : undefined;
+  if (variant === "killer" && !cages) {
+    return { ok: false, error: "The save file's Killer cages are missing." };
+  }
+  const check = checkPuzzle(unsolvedBoard, variant, cages);
+  if ("error" in check) return { ok: false, error: check.error };
+
+  const numberOr = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0
+      ? value
+      : fallback;
+  const hintCount = numberOr(game.hintCount, 0);
+  return {
+    ok: true,
+    data: {
+      kind: "save",
+      game: {
+        boardID: numberOr(game.boardID, 0),
+        difficulty:
+          typeof game.difficulty === "string" ? game.difficulty : "Imported",
+        unsolvedBoard,
+        board,
+        notes: isNotesGrid(game.notes)
+          ? game.notes
+          : Array.from({ length: 9 }, () =>
+              Array.from({ length: 9 }, () => [])
+            ),
+        // Undo history refers to moves made on the device the game was saved on
+        actionHistory: [],
+        hintCount,
+        // The game can't be left with more hints than it was allowed
+        hintAllowance: Math.max(
+          numberOr(game.hintAllowance, defaultSettings.hintAllowance),
+          hintCount
+        ),
+        elapsedTime: Math.floor(numberOr(game.elapsedTime, 0)),
+        offline: game.offline === true,
+        mistakes: numberOr(game.mistakes, 0),
+        livesMode: game.livesMode === true,
+        undoCount: numberOr(game.undoCount, 0),
+        // Hinted cells are locked in the unsolved board, so they're played as givens
+        hintedCells: [],
+        replayEvents: [],
+        variant,
+        cages,
+      },
+    },
+  };
+};
+
+/**
+ * Picks out the lines of a grid format that hold cells, skipping comments and the borders
+ * and separators drawn around boxes, such as "*-----------*" and "|---+---+---|".
+ *
+ * @remarks
+ * Headers before the puzzle are skipped, and reading stops at the first header after it,
+ * such as the [State] section SadMan Sudoku adds after the [Puzzle] section.
+ */
+const getGridLines = (text: string) => {
+  const lines: string[] = [];
+  for (const line of text.split(/\r?\n/).map((line) => line.trim())) {
+    if (line.startsWith("[")) {
+      if (lines.length > 0) break;
+      continue;
+    }
+    if (line.startsWith("#") || /^[*|+\s]*-[-*|+\s]*$/.test(line)) continue;
+    lines.push(line);
+  }
+  return lines;
+};
+
+/**
+ * Reads a puzzle pasted or loaded from a file. Accepted formats are:
+ * - A single line of 81 characters, with ".", "0", "_" or "*" for empty cells
+ * - The .sdk format: nine lines of nine characters. Lines starting with "#" or "[" are
+ *   treated as comments or headers, and only the first section after a header is read.
+ * - The .ss format: the .sdk format with "|" between boxes and lines of dashes between
+ *   bands, optionally boxed in by borders as Simple Sudoku writes it
+ * - A JSON save created by {@link toSaveJSON}, a replay created by toReplayJSON, or a
+ *   Killer puzzle created by {@link toKillerJSON}
+ *
+ * @param text - The text to read
+ * @param variant - The variant the grid formats are played as. Saves and replays record
+ *                  their own variant. Defaults to classic.
+ * @param cageText - The cages a grid is played with as a Killer puzzle, as written by
+ *                   {@link toCageString}, such as from a link
+ * @returns The puzzle, or a message explaining why it couldn't be read
+ */
+const parsePuzzle = (
+  text: string,
+  variant: Variant = "classic",
+  cageText?: string
+): PuzzleImportResult => {
+  const trimmedText = text.trim();
+  if (!trimmedText) return { ok: false, error: "There's no puzzle to import." };
+  if (trimmedText.startsWith("{")) return parseSave(trimmedText);
+  const cages =
+    variant === "killer" && cageText !== undefined
+      ? parseCageString(cageText)
+      : undefined;
+  if (variant === "killer" && !cages) {
+    return {
+      ok: false,
+      error:
+        cageText === undefined
+          ? "A Killer puzzle needs its cages, so import its JSON file instead."
+          : "The Killer puzzle's cages must cover every cell exactly once.",
+    };
+  }
+
+  const cells = getGridLines(trimmedText).join("").replace(/[|\s]/g, "");
+  const invalidCharacter = [...cells].find(
+    (cell) => !/[1-9]/.test(cell) && !blankCharacters.includes(cell)
+  );
+  if (invalidCharacter) {
+    return {
+      ok: false,
+      error: `The puzzle contains an unexpected character: "${invalidCharacter}".`,
+    };
+  }
+  if (cells.length !== 81) {
+    return {
+      ok: false,
+      error: `A puzzle needs 81 cells, but ${cells.length} were found.`,
+    };
+  }
+
+  const values = [...cells].map((cell) =>
+    blankCharacters.includes(cell) ? 0 : Number(cell)
+  );
+  const grid = Array.from({ length: 9 }, (_, row) =>
+    values.slice(row * 9, row * 9 + 9)
+  );
+  const check = checkPuzzle(grid, variant, cages ?? []);
+  if ("error" in check) return { ok: false, error: check.error };
+  return {
+    ok: true,
+    data: {
+      kind: "grid",
+      grid,
+      hasUniqueSolution: check.solutions === 1,
+      cages: cages ?? undefined,
+    },
+  };
+};
+
+export {
+  parsePuzzle,
+  toCageString,
+  toKillerJSON,
+  toPuzzleString,
+  toSaveJSON,
+  toSDK,
+  toSimpleSudoku,
+};
+export type { ImportedPuzzle, PuzzleImportResult };
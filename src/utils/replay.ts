@@ -0,0 +1,236 @@
+import {
+  createBoard,
+  getBoardValues,
+  isGrid,
+  recordPlayerAction,
+  restorePlayerAction,
+  setCellValue,
+  toggleCellNote,
+} from "./board";
+import type { GameBoard, PlayerAction } from "./board";
+import { isCageList } from "./cages";
+import type { Cage } from "./cages";
+import { isVariant } from "./variants";
+import type { Variant } from "./variants";
+
+type CellEventType = "value" | "note" | "hint" | "undo" | "redo";
+
+type ReplayEvent =
+  | {
+      type: CellEventType;
+      time: number;
+      row: number;
+      col: number;
+      value: number;
+      // Whether placing a number removed it from the notes of its peers
+      removePeerNotes: boolean;
+    }
+  | { type: "reset"; time: number };
+
+interface Replay {
+  boardID: number;
+  difficulty: string;
+  puzzle: number[][];
+  events: ReplayEvent[];
+  time: number;
+  variant: Variant;
+  cages?: Cage[];
+}
+
+interface ReplayFrame {
+  board: GameBoard;
+  event: ReplayEvent | null;
+}
+
+const replayFormat = "waffle-sudoku-replay";
+const replayFormatVersion = 1;
+const cellEventTypes: CellEventType[] = [
+  "value",
+  "note",
+  "hint",
+  "undo",
+  "redo",
+];
+
+/**
+ * Rebuilds the board after every event of a replay.
+ *
+ * The events are applied the same way the game applies the player's moves, including an
+ * undo and redo history of its own, so undo and redo events only need to say when they
+ * happened rather than what they restored.
+ *
+ * @param replay - The replay to rebuild
+ * @returns The starting board followed by the board after each event
+ */
+const buildReplayFrames = (replay: Replay): ReplayFrame[] => {
+  const { variant } = replay;
+  let board = createBoard(replay.puzzle, variant);
+  let actionHistory: PlayerAction[] = [];
+  let redoHistory: PlayerAction[] = [];
+  const frames: ReplayFrame[] = [{ board, event: null }];
+
+  for (const event of replay.events) {
+    switch (event.type) {
+      case "value":
+      case "note": {
+        const { row, col, value } = event;
+        actionHistory = [...actionHistory, recordPlayerAction(board, row, col)];
+        redoHistory = [];
+        board =
+          event.type === "value"
+            ? setCellValue(
+                board,
+                row,
+                col,
+                value,
+                false,
+                event.removePeerNotes,
+                variant
+              )
+            : toggleCellNote(board, row, col, value);
+        break;
+      }
+      case "hint":
+        redoHistory = [];
+        board = setCellValue(
+          board,
+          event.row,
+          event.col,
+          event.value,
+          true,
+          event.removePeerNotes,
+          variant
+        );
+        break;
+      case "undo": {
+        const action = actionHistory[actionHistory.length - 1];
+        if (!action) break;
+        redoHistory = [
+          ...redoHistory,
+          recordPlayerAction(board, action.row, action.col),
+        ];
+        actionHistory = actionHistory.slice(0, -1);
+        board = restorePlayerAction(board, action, variant);
+        break;
+      }
+      case "redo": {
+        const action = redoHistory[redoHistory.length - 1];
+        if (!action) break;
+        actionHistory = [
+          ...actionHistory,
+          recordPlayerAction(board, action.row, action.col),
+        ];
+        redoHistory = redoHistory.slice(0, -1);
+        board = restorePlayerAction(board, action, variant);
+        break;
+      }
+      case "reset":
+        actionHistory = [];
+        redoHistory = [];
+        board = createBoard(getBoardValues(board, false), variant);
+        break;
+    }
+    frames.push({ board, event });
+  }
+  return frames;
+};
+
+/**
+ * Describes an event of a replay for the replay viewer, such as "Placed 5 in R3C4".
+ *
+ * @param event - The event to describe, or null for the start of the replay
+ */
+const describeReplayEvent = (event: ReplayEvent | null) => {
+  if (!event) return "Start";
+  if (event.type === "reset") return "Reset the board";
+  const cell = `R${event.row + 1}C${event.col + 1}`;
+  switch (event.type) {
+    case "value":
+      return event.value
+        ? `Placed ${event.value} in ${cell}`
+        : `Erased ${cell}`;
+    case "note":
+      return `Toggled note ${event.value} in ${cell}`;
+    case "hint":
+      return `Hint: ${event.value} in ${cell}`;
+    case "undo":
+      return `Undid the move in ${cell}`;
+    case "redo":
+      return `Redid the move in ${cell}`;
+  }
+};
+
+/**
+ * Formats a replay as JSON, so it can be sent to someone else to watch.
+ *
+ * @param replay - The replay to export
+ */
+const toReplayJSON = (replay: Replay) =>
+  JSON.stringify({
+    format: replayFormat,
+    version: replayFormatVersion,
+    replay,
+  });
+
+const isCellIndex = (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 8;
+
+const isReplayEvent = (event: unknown): event is ReplayEvent => {
+  if (typeof event !== "object" || event === null) return false;
+  const { type, time, row, col, value, removePeerNotes } = event as Record<
+    string,
+    unknown
+  >;
+  if (typeof time !== "number" || !Number.isFinite(time)) return false;
+  if (type === "reset") return true;
+  return (
+    cellEventTypes.includes(type as CellEventType) &&
+    isCellIndex(row) &&
+    isCellIndex(col) &&
+    Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) <= 9 &&
+    typeof removePeerNotes === "boolean"
+  );
+};
+
+/**
+ * Reads a replay exported with {@link toReplayJSON}.
+ *
+ * @param data - The parsed JSON
+ * @returns The replay, or null if the data isn't a replay
+ */
+const parseReplay = (data: unknown): Replay | null => {
+  if (
+    typeof data !== "object" ||
+    data === null ||
+    !("format" in data) ||
+    data.format !== replayFormat ||
+    !("replay" in data) ||
+    typeof data.replay !== "object" ||
+    data.replay === null
+  ) {
+    return null;
+  }
+  const replay = data.replay as Record<string, unknown>;
+  if (
+    !isGrid(replay.puzzle) ||
+    !Array.isArray(replay.events) ||
+    !replay.events.every(isReplayEvent)
+  ) {
+    return null;
+  }
+  return {
+    boardID: typeof replay.boardID === "number" ? replay.boardID : 0,
+    difficulty:
+      typeof replay.difficulty === "string" ? replay.difficulty : "Imported",
+    puzzle: replay.puzzle,
+    events: replay.events,
+    time: typeof replay.time === "number" ? replay.time : 0,
+    variant: isVariant(replay.variant) ? replay.variant : "classic",
+    cages: isCageList(replay.cages) ? replay.cages : undefined,
+  };
+};
+
+export { buildReplayFrames, describeReplayEvent, parseReplay, toReplayJSON };
+export type { Replay, ReplayEvent, ReplayFrame };
@@ -0,0 +1,171 @@
+import { difficultyOrder } from "./solver";
+import type { Difficulty } from "./solver";
+import { isVariant } from "./variants";
+import type { Variant } from "./variants";
+
+type Route =
+  | { name: "home" }
+  | { name: "stats" }
+  | { name: "calendar" }
+  | { name: "how-to-play" }
+  | { name: "settings" }
+  | { name: "daily"; difficulty: Difficulty }
+  | { name: "random" }
+  | { name: "create" }
+  | { name: "puzzle"; id: number; difficulty: Difficulty; variant?: Variant }
+  | { name: "play"; grid: string; variant?: Variant; cages?: string };
+
+const defaultPuzzleDifficulty: Difficulty = "Medium";
+
+/**
+ * Finds the difficulty named in a URL, ignoring case.
+ */
+const parseDifficulty = (value: string | null) =>
+  difficultyOrder.find(
+    (difficulty) => difficulty.toLowerCase() === value?.toLowerCase()
+  );
+
+/**
+ * Finds the variant named in a URL.
+ *
+ * @returns The variant, classic if none is named, or null if the name isn't a variant
+ */
+const parseVariant = (value: string | null): Variant | null => {
+  if (value === null) return "classic";
+  return isVariant(value) ? value : null;
+};
+
+/**
+ * Adds the variant to a URL's query string, leaving it out for classic puzzles.
+ */
+const formatVariant = (variant: Variant = "classic") =>
+  variant === "classic" ? "" : `variant=${variant}`;
+
+/**
+ * Works out which screen or game a URL refers to.
+ *
+ * Routes:
+ * - / - The start overlay
+ * - /stats, /calendar, /how-to-play, /settings - Overlays opened from the start overlay
+ * - /daily/:difficulty - Today's daily puzzle, such as /daily/easy
+ * - /random - A random board from the server
+ * - /create - The empty board for typing in a puzzle
+ * - /puzzle/:id?difficulty= - A board generated in the browser, which is the same every
+ *   time for the same ID and difficulty. The difficulty defaults to Medium.
+ * - /play?grid= - The puzzle in the grid, in any format parsePuzzle accepts
+ *
+ * /puzzle and /play also take a variant, such as ?variant=diagonal, which defaults to
+ * classic. Killer puzzles on /play also take their cages, as written by toCageString.
+ *
+ * @param path - The path of the URL
+ * @param search - The query string of the URL
+ * @returns The route, or null if the URL doesn't match one
+ */
+const parseRoute = (path: string, search: string = ""): Route | null => {
+  const segments = path.split("/").filter(Boolean);
+  const searchParams = new URLSearchParams(search);
+  const [page, parameter] = segments;
+  const variant = parseVariant(searchParams.get("variant"));
+
+  if (segments.length === 0) return { name: "home" };
+  if (segments.length === 1) {
+    if (
+      page === "stats" ||
+      page === "calendar" ||
+      page === "how-to-play" ||
+      page === "settings"
+    ) {
+      return { name: page };
+    }
+    if (page === "random" || page === "create") return { name: page };
+    if (page === "play") {
+      const grid = searchParams.get("grid");
+      const cages = searchParams.get("cages") ?? undefined;
+      return grid && variant ? { name: "play", grid, variant, cages } : null;
+    }
+  }
+  if (segments.length === 2) {
+    if (page === "daily") {
+      const difficulty = parseDifficulty(parameter);
+      return difficulty ? { name: "daily", difficulty } : null;
+    }
+    if (page === "puzzle" && /^\d+$/.test(parameter)) {
+      const difficulty = parseDifficulty(searchParams.get("difficulty"));
+      if ((searchParams.has("difficulty") && !difficulty) || !variant) {
+        return null;
+      }
+      return {
+        name: "puzzle",
+        id: Number(parameter),
+        difficulty: difficulty ?? defaultPuzzleDifficulty,
+        variant,
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Creates the URL of a route, as a path and query string.
+ *
+ * @param route - The route to link to
+ */
+const formatRoute = (route: Route) => {
+  switch (route.name) {
+    case "home":
+      return "/";
+    case "daily":
+      return `/daily/${route.difficulty.toLowerCase()}`;
+    case "puzzle":
+      return [
+        `/puzzle/${route.id}?difficulty=${route.difficulty.toLowerCase()}`,
+        formatVariant(route.variant),
+      ]
+        .filter(Boolean)
+        .join("&");
+    case "play":
+      return [
+        `/play?${new URLSearchParams({ grid: route.grid })}`,
+        formatVariant(route.variant),
+        route.cages && `${new URLSearchParams({ cages: route.cages })}`,
+      ]
+        .filter(Boolean)
+        .join("&");
+    default:
+      return `/${route.name}`;
+  }
+};
+
+/**
+ * Gets the URL of the current page, as a path and query string.
+ */
+const getCurrentPath = () => window.location.pathname + window.location.search;
+
+/**
+ * Works out which route the current page is on.
+ *
+ * @returns The route, or null if the URL doesn't match one
+ */
+const getCurrentRoute = () =>
+  parseRoute(window.location.pathname, window.location.search);
+
+/**
+ * Changes the URL to a route without reloading the page. Does nothing if the page is
+ * already on the route, so it is safe to call when handling back and forward navigation.
+ *
+ * @param route - The route to go to
+ * @param replace - Whether to replace the current history entry instead of adding one,
+ *                  so the back button skips the current URL
+ */
+const navigate = (route: Route, replace: boolean = false) => {
+  const path = formatRoute(route);
+  if (path === getCurrentPath()) return;
+  if (replace) {
+    window.history.replaceState(null, "", path);
+  } else {
+    window.history.pushState(null, "", path);
+  }
+};
+
+export { formatRoute, getCurrentPath, getCurrentRoute, navigate, parseRoute };
+export type { Route };
@@ -0,0 +1,103 @@
+import type { PlayerAction } from "./board";
+import type { Cage } from "./cages";
+import type { ReplayEvent } from "./replay";
+import type { Route } from "./routes";
+import type { CellPosition } from "./solver";
+import type { Variant } from "./variants";
+
+const savedGameStorageKey = "waffle-saved-game";
+// The elapsed time is kept apart from the game, so the timer doesn't rewrite the whole game every second
+const savedGameTimeStorageKey = "waffle-saved-game-time";
+
+interface SavedGame {
+  boardID: number;
+  difficulty: string;
+  unsolvedBoard: number[][];
+  board: number[][];
+  notes: number[][][];
+  actionHistory: PlayerAction[];
+  hintCount: number;
+  hintAllowance: number;
+  elapsedTime: number;
+  offline: boolean;
+  mistakes: number;
+  livesMode: boolean;
+  undoCount: number;
+  dailyDate?: string;
+  hintedCells: CellPosition[];
+  route?: Route;
+  replayEvents: ReplayEvent[];
+  variant: Variant;
+  cages?: Cage[];
+}
+
+/**
+ * Persists the in-progress game to localStorage, replacing any previously saved game.
+ *
+ * @param game - The game to save
+ */
+const saveGame = (game: SavedGame) => {
+  try {
+    localStorage.setItem(savedGameStorageKey, JSON.stringify(game));
+    localStorage.setItem(savedGameTimeStorageKey, game.elapsedTime.toString());
+  } catch (error) {
+    console.error("Error saving game:", error);
+  }
+};
+
+/**
+ * Updates the elapsed time of the saved game.
+ *
+ * @param elapsedTime - The time played so far, in seconds
+ */
+const saveElapsedTime = (elapsedTime: number) => {
+  try {
+    localStorage.setItem(savedGameTimeStorageKey, elapsedTime.toString());
+  } catch (error) {
+    console.error("Error saving elapsed time:", error);
+  }
+};
+
+/**
+ * Loads the saved in-progress game from localStorage, with its latest elapsed time.
+ *
+ * @returns The saved game, or null if there is none or it could not be read
+ */
+const loadSavedGame = (): SavedGame | null => {
+  try {
+    const savedGame = localStorage.getItem(savedGameStorageKey);
+    if (!savedGame) return null;
+    const parsedGame = JSON.parse(savedGame) as SavedGame;
+    if (
+      !Array.isArray(parsedGame.unsolvedBoard) ||
+      parsedGame.unsolvedBoard.length !== 9 ||
+      !Array.isArray(parsedGame.board) ||
+      parsedGame.board.length !== 9
+    ) {
+      return null;
+    }
+    const elapsedTime = Number(
+      localStorage.getItem(savedGameTimeStorageKey) ?? parsedGame.elapsedTime
+    );
+    return {
+      ...parsedGame,
+      elapsedTime: Number.isInteger(elapsedTime)
+        ? elapsedTime
+        : parsedGame.elapsedTime,
+    };
+  } catch (error) {
+    console.error("Error loading saved game:", error);
+    return null;
+  }
+};
+
+/**
+ * Removes the saved in-progress game from localStorage.
+ */
+const clearSavedGame = () => {
+  localStorage.removeItem(savedGameStorageKey);
+  localStorage.removeItem(savedGameTimeStorageKey);
+};
+
+export { saveGame, saveElapsedTime, loadSavedGame, clearSavedGame };
+export type { SavedGame };
@@ -0,0 +1,149 @@
+const settingsStorageKey = "waffle-settings";
+
+type Theme = "system" | "light" | "dark" | "high-contrast" | "colour-blind";
+
+interface Settings {
+  theme: Theme;
+  highlightHouses: boolean;
+  highlightSameNumber: boolean;
+  showConflicts: boolean;
+  showTimer: boolean;
+  hintAllowance: number;
+  autoRemoveNotes: boolean;
+}
+
+type AssistSetting =
+  | "highlightHouses"
+  | "highlightSameNumber"
+  | "showConflicts"
+  | "autoRemoveNotes";
+
+const themes: { theme: Theme; label: string }[] = [
+  { theme: "system", label: "System" },
+  { theme: "light", label: "Light" },
+  { theme: "dark", label: "Dark" },
+  { theme: "high-contrast", label: "High contrast" },
+  { theme: "colour-blind", label: "Colour-blind safe" },
+];
+
+const assistSettings: { setting: AssistSetting; label: string }[] = [
+  {
+    setting: "highlightHouses",
+    label: "Highlight the row, column and box of the selected cell",
+  },
+  {
+    setting: "highlightSameNumber",
+    label: "Highlight cells with the same number as the selected cell",
+  },
+  { setting: "showConflicts", label: "Show conflicting numbers as you play" },
+  {
+    setting: "autoRemoveNotes",
+    label: "Remove a placed number from the notes of its row, column and box",
+  },
+];
+
+const hintAllowances = [0, 1, 3, 5, 10];
+
+const defaultSettings: Settings = {
+  theme: "system",
+  highlightHouses: true,
+  highlightSameNumber: true,
+  showConflicts: true,
+  showTimer: true,
+  hintAllowance: 5,
+  autoRemoveNotes: true,
+};
+
+/**
+ * Loads the player's settings from localStorage.
+ *
+ * @returns The settings, with the defaults in place of any that are missing or invalid
+ */
+const loadSettings = (): Settings => {
+  try {
+    const settings = localStorage.getItem(settingsStorageKey);
+    if (!settings) return defaultSettings;
+    const parsedSettings: Partial<Settings> = JSON.parse(settings);
+    const booleanOr = (value: unknown, fallback: boolean) =>
+      typeof value === "boolean" ? value : fallback;
+    return {
+      theme: themes.some(({ theme }) => theme === parsedSettings.theme)
+        ? (parsedSettings.theme as Theme)
+        : defaultSettings.theme,
+      highlightHouses: booleanOr(
+        parsedSettings.highlightHouses,
+        defaultSettings.highlightHouses
+      ),
+      highlightSameNumber: booleanOr(
+        parsedSettings.highlightSameNumber,
+        defaultSettings.highlightSameNumber
+      ),
+      showConflicts: booleanOr(
+        parsedSettings.showConflicts,
+        defaultSettings.showConflicts
+      ),
+      showTimer: booleanOr(parsedSettings.showTimer, defaultSettings.showTimer),
+      hintAllowance: hintAllowances.includes(
+        parsedSettings.hintAllowance as number
+      )
+        ? (parsedSettings.hintAllowance as number)
+        : defaultSettings.hintAllowance,
+      autoRemoveNotes: booleanOr(
+        parsedSettings.autoRemoveNotes,
+        defaultSettings.autoRemoveNotes
+      ),
+    };
+  } catch (error) {
+    console.error("Error loading settings:", error);
+    return defaultSettings;
+  }
+};
+
+/**
+ * Persists the player's settings to localStorage.
+ *
+ * @param settings - The settings to save
+ */
+const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(settingsStorageKey, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving settings:", error);
+  }
+};
+
+/**
+ * Turns off every assist and hint, for players who want to solve without any help.
+ *
+ * @param settings - The current settings
+ * @returns The settings with the assists off, keeping the theme and timer setting
+ */
+const withoutAssists = (settings: Settings): Settings => ({
+  ...settings,
+  highlightHouses: false,
+  highlightSameNumber: false,
+  showConflicts: false,
+  hintAllowance: 0,
+  autoRemoveNotes: false,
+});
+
+/**
+ * Works out which palette to show for a theme.
+ *
+ * @param theme - The chosen theme
+ * @param prefersDark - Whether the device is set to dark mode, which the "system" theme follows
+ */
+const resolveTheme = (theme: Theme, prefersDark: boolean) =>
+  theme === "system" ? (prefersDark ? "dark" : "light") : theme;
+
+export {
+  assistSettings,
+  defaultSettings,
+  hintAllowances,
+  loadSettings,
+  resolveTheme,
+  saveSettings,
+  themes,
+  withoutAssists,
+};
+export type { AssistSetting, Settings, Theme };
@@ -0,0 +1,216 @@
+import { downloadFile } from "./download";
+import { formatTime } from "./time";
+import type { CellPosition } from "./solver";
+
+interface ShareResult {
+  boardID: number;
+  difficulty: string;
+  dailyDate: string | null;
+  time: number;
+  hintsUsed: number;
+  mistakes: number;
+  hintedCells: CellPosition[];
+}
+
+type ShareOutcome = "shared" | "copied" | "downloaded" | "cancelled";
+
+const selfSolvedBoxEmoji = "🟩";
+const hintedBoxEmoji = "🟨";
+const imageSize = 600;
+const imageFont = '"Nunito", sans-serif';
+const imageColors = {
+  background: "#edeff1",
+  card: "#fff",
+  text: "#1a1a1b",
+  subtleText: "#454747",
+  selfSolvedBox: "#6fb05c",
+  hintedBox: "#e9ba3a",
+};
+
+const pluralise = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * Works out which of the nine 3x3 boxes had a cell filled in by a hint.
+ *
+ * @param hintedCells - The cells that were filled in by hints
+ * @returns Whether each box had a hint, in reading order
+ */
+const getHintedBoxes = (hintedCells: CellPosition[]) => {
+  const hintedBoxes: boolean[] = Array(9).fill(false);
+  for (const { row, col } of hintedCells) {
+    hintedBoxes[Math.floor(row / 3) * 3 + Math.floor(col / 3)] = true;
+  }
+  return hintedBoxes;
+};
+
+const getShareTitle = ({ boardID, difficulty, dailyDate }: ShareResult) =>
+  `Waffle Sudoku #${boardID.toString().padStart(4, "0")} ${
+    dailyDate ? `Daily ${difficulty} ${dailyDate}` : difficulty
+  }`;
+
+/**
+ * Creates a spoiler-free text summary of a solved puzzle to post in a chat.
+ *
+ * The summary names the puzzle, the time taken, the hints used and mistakes made, and
+ * shows the nine boxes of the board as emoji: green for boxes solved without help and
+ * yellow for boxes where a hint was used. No numbers from the board are included.
+ *
+ * @param result - The solved puzzle to summarise
+ * @returns The summary, one line per row of emoji
+ */
+const createShareText = (result: ShareResult) => {
+  const hintedBoxes = getHintedBoxes(result.hintedCells);
+  const boxRows = [0, 1, 2].map((boxRow) =>
+    hintedBoxes
+      .slice(boxRow * 3, boxRow * 3 + 3)
+      .map((hinted) => (hinted ? hintedBoxEmoji : selfSolvedBoxEmoji))
+      .join("")
+  );
+  return [
+    getShareTitle(result),
+    `⏱️ ${formatTime(result.time)} | 💡 ${pluralise(
+      result.hintsUsed,
+      "hint"
+    )} | ❌ ${pluralise(result.mistakes, "mistake")}`,
+    ...boxRows,
+  ].join("\n");
+};
+
+/**
+ * Draws the same summary as {@link createShareText} as a square PNG card.
+ *
+ * @param result - The solved puzzle to summarise
+ * @returns The PNG image
+ */
+const createShareImage = (result: ShareResult) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = imageSize;
+  canvas.height = imageSize;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return Promise.reject(new Error("Canvas is not supported"));
+  }
+
+  context.fillStyle = imageColors.background;
+  context.fillRect(0, 0, imageSize, imageSize);
+  context.fillStyle = imageColors.card;
+  context.beginPath();
+  context.roundRect(30, 30, imageSize - 60, imageSize - 60, 24);
+  context.fill();
+
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillStyle = imageColors.text;
+  context.font = `900 36px ${imageFont}`;
+  context.fillText(
+    `Waffle Sudoku #${result.boardID.toString().padStart(4, "0")}`,
+    imageSize / 2,
+    90
+  );
+  context.fillStyle = imageColors.subtleText;
+  context.font = `700 24px ${imageFont}`;
+  context.fillText(
+    result.dailyDate
+      ? `Daily ${result.difficulty} · ${result.dailyDate}`
+      : result.difficulty,
+    imageSize / 2,
+    135
+  );
+  context.fillText(
+    `${formatTime(result.time)} · ${pluralise(
+      result.hintsUsed,
+      "hint"
+    )} · ${pluralise(result.mistakes, "mistake")}`,
+    imageSize / 2,
+    175
+  );
+
+  const boxSize = 100;
+  const boxGap = 12;
+  const gridLeft = (imageSize - boxSize * 3 - boxGap * 2) / 2;
+  const gridTop = 220;
+  getHintedBoxes(result.hintedCells).forEach((hinted, box) => {
+    context.fillStyle = hinted
+      ? imageColors.hintedBox
+      : imageColors.selfSolvedBox;
+    context.beginPath();
+    context.roundRect(
+      gridLeft + (box % 3) * (boxSize + boxGap),
+      gridTop + Math.floor(box / 3) * (boxSize + boxGap),
+      boxSize,
+      boxSize,
+      12
+    );
+    context.fill();
+  });
+
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Couldn't create the image")),
+      "image/png"
+    )
+  );
+};
+
+/**
+ * Whether the Web Share API should be preferred over the clipboard. Desktop browsers that
+ * support it open a share sheet, which is more awkward than pasting, so it's only used on
+ * touch devices.
+ */
+const prefersWebShare = () =>
+  typeof navigator.share === "function" &&
+  window.matchMedia("(pointer: coarse)").matches;
+
+const isShareCancellation = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+/**
+ * Shares the text summary of a solved puzzle with the Web Share API on touch devices, or
+ * copies it to the clipboard elsewhere.
+ *
+ * @param result - The solved puzzle to share
+ * @returns How the summary was shared, or "cancelled" if the player closed the share sheet
+ */
+const shareResultText = async (result: ShareResult): Promise<ShareOutcome> => {
+  const text = createShareText(result);
+  if (prefersWebShare()) {
+    try {
+      await navigator.share({ text });
+      return "shared";
+    } catch (error) {
+      if (isShareCancellation(error)) return "cancelled";
+      throw error;
+    }
+  }
+  await navigator.clipboard.writeText(text);
+  return "copied";
+};
+
+/**
+ * Shares the PNG card of a solved puzzle with the Web Share API where files can be
+ * shared, or downloads it elsewhere.
+ *
+ * @param result - The solved puzzle to share
+ * @returns How the card was shared, or "cancelled" if the player closed the share sheet
+ */
+const shareResultImage = async (result: ShareResult): Promise<ShareOutcome> => {
+  const image = await createShareImage(result);
+  const fileName = `waffle-sudoku-${result.boardID}.png`;
+  const file = new File([image], fileName, { type: "image/png" });
+  if (prefersWebShare() && navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], text: getShareTitle(result) });
+      return "shared";
+    } catch (error) {
+      if (isShareCancellation(error)) return "cancelled";
+      throw error;
+    }
+  }
+  downloadFile(image, fileName);
+  return "downloaded";
+};
+
+export { createShareImage, createShareText, shareResultImage, shareResultText };
+export type { ShareOutcome, ShareResult };
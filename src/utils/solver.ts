@@ -0,0 +1,895 @@
+import { findCageIndex, getCageCombinations, getCageErrors } from "./cages";
+import { getVariantPeers } from "./variants";
+import type { Cage } from "./cages";
+import type { Variant } from "./variants";
+
+type Board = number[][];
+
+type Difficulty = "Easy" | "Medium" | "Hard";
+
+type HouseType = "row" | "column" | "box";
+
+type SolvingTechnique =
+  | "Naked single"
+  | "Hidden single"
+  | "Pointing pair"
+  | "Box/line reduction"
+  | "Naked pair"
+  | "Hidden pair"
+  | "X-Wing";
+
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+interface CellValue extends CellPosition {
+  value: number;
+}
+
+interface House {
+  type: HouseType;
+  index: number;
+}
+
+interface SolverStep {
+  technique: SolvingTechnique;
+  placement: CellValue | null;
+  eliminations: CellValue[];
+  houses: House[];
+  cells: CellPosition[];
+  digits: number[];
+}
+
+interface BoardGrade {
+  difficulty: Difficulty;
+  techniques: SolvingTechnique[];
+  solvedLogically: boolean;
+}
+
+const gridSize = 9;
+const boxSize = 3;
+const allCandidates = 0b1111111110;
+
+const difficultyOrder: Difficulty[] = ["Easy", "Medium", "Hard"];
+
+const techniqueDifficulty: Record<SolvingTechnique, Difficulty> = {
+  "Naked single": "Easy",
+  "Hidden single": "Easy",
+  "Pointing pair": "Medium",
+  "Box/line reduction": "Medium",
+  "Naked pair": "Medium",
+  "Hidden pair": "Medium",
+  "X-Wing": "Hard",
+};
+
+/**
+ * Returns the index (0-8) of the 3x3 box containing a cell, counted left to right,
+ * top to bottom.
+ */
+const getBoxIndex = (row: number, col: number) =>
+  Math.floor(row / boxSize) * boxSize + Math.floor(col / boxSize);
+
+/**
+ * Lists the positions of the nine cells belonging to a row, column or box.
+ *
+ * @param house - The house to list the cells of
+ * @returns The cell positions in reading order
+ */
+const getHouseCells = (house: House): CellPosition[] =>
+  Array.from({ length: gridSize }, (_, i) => {
+    if (house.type === "row") return { row: house.index, col: i };
+    if (house.type === "column") return { row: i, col: house.index };
+    return {
+      row:
+        Math.floor(house.index / boxSize) * boxSize + Math.floor(i / boxSize),
+      col: (house.index % boxSize) * boxSize + (i % boxSize),
+    };
+  });
+
+const rowHouses: House[] = Array.from({ length: gridSize }, (_, index) => ({
+  type: "row",
+  index,
+}));
+const columnHouses: House[] = Array.from({ length: gridSize }, (_, index) => ({
+  type: "column",
+  index,
+}));
+const boxHouses: House[] = Array.from({ length: gridSize }, (_, index) => ({
+  type: "box",
+  index,
+}));
+const allHouses: House[] = [...boxHouses, ...rowHouses, ...columnHouses];
+
+/**
+ * Checks whether a cell belongs to a row, column or box.
+ */
+const isCellInHouse = (cell: CellPosition, house: House) => {
+  if (house.type === "row") return cell.row === house.index;
+  if (house.type === "column") return cell.col === house.index;
+  return getBoxIndex(cell.row, cell.col) === house.index;
+};
+
+/**
+ * Checks whether two cells share a row, column or box, or can't hold the same number
+ * because of the variant's rules.
+ */
+const arePeers = (
+  a: CellPosition,
+  b: CellPosition,
+  variant: Variant = "classic"
+) =>
+  (a.row !== b.row || a.col !== b.col) &&
+  (a.row === b.row ||
+    a.col === b.col ||
+    getBoxIndex(a.row, a.col) === getBoxIndex(b.row, b.col) ||
+    getVariantPeers(variant, a.row, a.col).some(
+      (peer) => peer.row === b.row && peer.col === b.col
+    ));
+
+const countBits = (mask: number) => {
+  let count = 0;
+  for (let bits = mask; bits; bits &= bits - 1) count++;
+  return count;
+};
+
+const maskToDigits = (mask: number) => {
+  const digits: number[] = [];
+  for (let digit = 1; digit <= gridSize; digit++) {
+    if (mask & (1 << digit)) digits.push(digit);
+  }
+  return digits;
+};
+
+const copyBoard = (board: Board): Board => board.map((row) => [...row]);
+
+/**
+ * Checks that no filled cell on the board repeats a number in its row, column or box,
+ * or shares it with a cell the variant's rules keep it apart from, and that no cage
+ * repeats a number or goes over its sum.
+ *
+ * @param board - A 9x9 board where 0 represents an empty cell
+ * @param variant - The variant whose extra rules also apply
+ * @param cages - The cages of a Killer puzzle, if any
+ * @returns True if the filled cells follow the Sudoku rules
+ */
+const isBoardValid = (
+  board: Board,
+  variant: Variant = "classic",
+  cages: Cage[] = []
+) => {
+  const used = new Array(gridSize * 3).fill(0);
+  for (let row = 0; row < gridSize; row++) {
+    for (let col = 0; col < gridSize; col++) {
+      const value = board[row][col];
+      if (!value) continue;
+      const bit = 1 << value;
+      const masks = [row, gridSize + col, gridSize * 2 + getBoxIndex(row, col)];
+      if (masks.some((index) => used[index] & bit)) return false;
+      masks.forEach((index) => (used[index] |= bit));
+      if (
+        getVariantPeers(variant, row, col).some(
+          (peer) => board[peer.row][peer.col] === value
+        )
+      ) {
+        return false;
+      }
+    }
+  }
+  return !getCageErrors(board, cages).some((row) => row.some(Boolean));
+};
+
+/**
+ * Checks whether a board is completely filled and follows the Sudoku rules.
+ *
+ * @param board - A 9x9 board where 0 represents an empty cell
+ * @param variant - The variant whose extra rules also apply
+ * @param cages - The cages of a Killer puzzle, if any
+ * @returns True if the board is a valid, complete solution
+ */
+const isBoardSolved = (
+  board: Board,
+  variant: Variant = "classic",
+  cages: Cage[] = []
+) =>
+  board.every((row) => row.every((value) => value !== 0)) &&
+  isBoardValid(board, variant, cages);
+
+/**
+ * Searches for solutions of a board by backtracking, always branching on the empty
+ * cell with the fewest candidates.
+ *
+ * @param board - A 9x9 board where 0 represents an empty cell
+ * @param limit - Stop searching once this many solutions have been found
+ * @param random - Optional random number source used to shuffle the order digits are tried in
+ * @param variant - The variant whose extra rules also apply
+ * @param cages - The cages of a Killer puzzle, if any. A number is only tried in a cage
+ *                if it's part of a combination that adds up to the cage's sum and
+ *                includes the numbers already in the cage.
+ * @returns The number of solutions found (up to the limit) and the first solution, if any
+ */
+const searchSolutions = (
+  board: Board,
+  limit: number,
+  random?: () => number,
+  variant: Variant = "classic",
+  cages: Cage[] = []
+): { count: number; solution: Board | null } => {
+  if (!isBoardValid(board, variant, cages)) return { count: 0, solution: null };
+
+  const grid = copyBoard(board);
+  const rowMasks = new Array(gridSize).fill(0);
+  const columnMasks = new Array(gridSize).fill(0);
+  const boxMasks = new Array(gridSize).fill(0);
+  for (let row = 0; row < gridSize; row++) {
+    for (let col = 0; col < gridSize; col++) {
+      const bit = grid[row][col] ? 1 << grid[row][col] : 0;
+      rowMasks[row] |= bit;
+      columnMasks[col] |= bit;
+      boxMasks[getBoxIndex(row, col)] |= bit;
+    }
+  }
+  const cageIndexes = grid.map((gridRow, row) =>
+    gridRow.map((_, col) => findCageIndex(cages, row, col))
+  );
+  const cageMasks = new Array(cages.length).fill(0);
+  cages.forEach(({ cells }, cageIndex) =>
+    cells.forEach(({ row, col }) => {
+      if (grid[row][col]) cageMasks[cageIndex] |= 1 << grid[row][col];
+    })
+  );
+  const cageCombinations = cages.map(({ sum, cells }) =>
+    getCageCombinations(sum, cells.length).map((combination) =>
+      combination.reduce((mask, digit) => mask | (1 << digit), 0)
+    )
+  );
+  // The numbers each cage can still take, and the numbers it must still take
+  const cageOptions = new Array(cages.length).fill(0);
+  const cageRequired = new Array(cages.length).fill(0);
+  const houseCells = allHouses.map(getHouseCells);
+  const cellMasks = new Array(gridSize * gridSize).fill(0);
+
+  let count = 0;
+  let solution: Board | null = null;
+
+  const search = () => {
+    for (let cageIndex = 0; cageIndex < cages.length; cageIndex++) {
+      const used = cageMasks[cageIndex];
+      let options = 0;
+      let required = allCandidates;
+      for (const combination of cageCombinations[cageIndex]) {
+        if ((combination & used) !== used) continue;
+        options |= combination & ~used;
+        required &= combination & ~used;
+      }
+      const { cells } = cages[cageIndex];
+      if (!options && cells.some(({ row, col }) => !grid[row][col])) return;
+      cageOptions[cageIndex] = options;
+      cageRequired[cageIndex] = options ? required : 0;
+    }
+
+    let bestRow = -1;
+    let bestCol = -1;
+    let bestMask = 0;
+    let bestCount = gridSize + 1;
+    for (let row = 0; row < gridSize && bestCount > 1; row++) {
+      for (let col = 0; col < gridSize && bestCount > 1; col++) {
+        if (grid[row][col]) continue;
+        let mask =
+          allCandidates &
+          ~(rowMasks[row] | columnMasks[col] | boxMasks[getBoxIndex(row, col)]);
+        for (const peer of getVariantPeers(variant, row, col)) {
+          mask &= ~(1 << grid[peer.row][peer.col]);
+        }
+        const cageIndex = cageIndexes[row][col];
+        if (cageIndex !== -1) mask &= cageOptions[cageIndex];
+        const candidateCount = countBits(mask);
+        if (candidateCount === 0) return;
+        cellMasks[row * gridSize + col] = mask;
+        if (candidateCount < bestCount) {
+          bestRow = row;
+          bestCol = col;
+          bestMask = mask;
+          bestCount = candidateCount;
+        }
+      }
+    }
+
+    // Killer puzzles can have no givens at all, so their search also branches on a number
+    // with only one place left in a house or cage, and gives up on a number with none
+    if (cages.length > 0 && bestCount > 1) {
+      const houses = [
+        ...houseCells.map((cells) => ({ cells, required: allCandidates })),
+        ...cages.map(({ cells }, cageIndex) => ({
+          cells,
+          required: cageRequired[cageIndex],
+        })),
+      ];
+      for (const { cells, required } of houses) {
+        let placed = 0;
+        let once = 0;
+        let twice = 0;
+        for (const { row, col } of cells) {
+          if (grid[row][col]) {
+            placed |= 1 << grid[row][col];
+            continue;
+          }
+          const mask = cellMasks[row * gridSize + col];
+          twice |= once & mask;
+          once |= mask;
+        }
+        if (required & ~placed & ~once) return;
+        const singles = required & once & ~twice;
+        if (!singles) continue;
+        const bit = singles & -singles;
+        const cell = cells.find(
+          ({ row, col }) =>
+            !grid[row][col] && cellMasks[row * gridSize + col] & bit
+        );
+        if (!cell) continue;
+        bestRow = cell.row;
+        bestCol = cell.col;
+        bestMask = bit;
+        bestCount = 1;
+        break;
+      }
+    }
+
+    if (bestRow === -1) {
+      count++;
+      if (!solution) solution = copyBoard(grid);
+      return;
+    }
+
+    const digits = maskToDigits(bestMask);
+    if (random) {
+      for (let i = digits.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [digits[i], digits[j]] = [digits[j], digits[i]];
+      }
+    }
+
+    const boxIndex = getBoxIndex(bestRow, bestCol);
+    const cageIndex = cageIndexes[bestRow][bestCol];
+    for (const digit of digits) {
+      const bit = 1 << digit;
+      grid[bestRow][bestCol] = digit;
+      rowMasks[bestRow] |= bit;
+      columnMasks[bestCol] |= bit;
+      boxMasks[boxIndex] |= bit;
+      if (cageIndex !== -1) cageMasks[cageIndex] |= bit;
+      search();
+      grid[bestRow][bestCol] = 0;
+      rowMasks[bestRow] &= ~bit;
+      columnMasks[bestCol] &= ~bit;
+      boxMasks[boxIndex] &= ~bit;
+      if (cageIndex !== -1) cageMasks[cageIndex] &= ~bit;
+      if (count >= limit) return;
+    }
+  };
+
+  search();
+  return { count, solution };
+};
+
+/**
+ * Counts the solutions of a board, stopping early once the limit is reached.
+ *
+ * @param board - A 9x9 board where 0 represents an empty cell
+ * @param limit - The maximum number of solutions to count. Defaults to 2, which is
+ *                enough to tell whether a puzzle has exactly one solution.
+ * @param variant - The variant whose extra rules also apply
+ * @param cages - The cages of a Killer puzzle, if any
+ * @returns The number of solutions, capped at the limit
+ */
+const countSolutions = (
+  board: Board,
+  limit: number = 2,
+  variant: Variant = "classic",
+  cages: Cage[] = []
+) => searchSolutions(board, limit, undefined, variant, cages).count;
+
+/**
+ * Solves a board by backtracking.
+ *
+ * @param board - A 9x9 board where 0 represents an empty cell
+ * @param variant - The variant whose extra rules also apply
+ * @param cages - The cages of a Killer puzzle, if any
+ * @returns The first solution found, or null if the board has no solution
+ */
+const solveBoard = (
+  board: Board,
+  variant: Variant = "classic",
+  cages: Cage[] = []
+) => searchSolutions(board, 1, undefined, variant, cages).solution;
+
+/**
+ * Solves a board only if it has exactly one solution, so the solution can be trusted
+ * to match the puzzle's intended answer.
+ *
+ * @param board - A 9x9 board where 0 represents an empty cell
+ * @param variant - The variant whose extra rules also apply
+ * @param cages - The cages of a Killer puzzle, if any
+ * @returns The solution, or null if the board has no solution or more than one
+ */
+const findUniqueSolution = (
+  board: Board,
+  variant: Variant = "classic",
+  cages: Cage[] = []
+) => {
+  const { count, solution } = searchSolutions(
+    board,
+    2,
+    undefined,
+    variant,
+    cages
+  );
+  return count === 1 ? solution : null;
+};
+
+/**
+ * Calculates the candidate numbers of every empty cell on the board as bitmasks,
+ * where bit n is set if n can still be placed in the cell.
+ *
+ * @param board - A 9x9 board where 0 represents an empty cell
+ * @param variant - The variant whose extra rules also rule out candidates
+ * @returns A 9x9 grid of candidate bitmasks, with 0 for filled cells
+ */
+const getCandidateMasks = (board: Board, variant: Variant = "classic") =>
+  board.map((boardRow, row) =>
+    boardRow.map((value, col) => {
+      if (value) return 0;
+      let mask = allCandidates;
+      for (let i = 0; i < gridSize; i++) {
+        mask &= ~(1 << board[row][i]);
+        mask &= ~(1 << board[i][col]);
+      }
+      getHouseCells({ type: "box", index: getBoxIndex(row, col) }).forEach(
+        (cell) => (mask &= ~(1 << board[cell.row][cell.col]))
+      );
+      getVariantPeers(variant, row, col).forEach(
+        (cell) => (mask &= ~(1 << board[cell.row][cell.col]))
+      );
+      return mask;
+    })
+  );
+
+/**
+ * Finds a cell with only one remaining candidate.
+ */
+const findNakedSingle = (
+  _board: Board,
+  candidates: number[][]
+): SolverStep | null => {
+  for (let row = 0; row < gridSize; row++) {
+    for (let col = 0; col < gridSize; col++) {
+      if (countBits(candidates[row][col]) !== 1) continue;
+      const value = maskToDigits(candidates[row][col])[0];
+      return {
+        technique: "Naked single",
+        placement: { row, col, value },
+        eliminations: [],
+        houses: [
+          { type: "row", index: row },
+          { type: "column", index: col },
+          { type: "box", index: getBoxIndex(row, col) },
+        ],
+        cells: [{ row, col }],
+        digits: [value],
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds a number that can only go in one cell of a row, column or box.
+ */
+const findHiddenSingle = (
+  _board: Board,
+  candidates: number[][]
+): SolverStep | null => {
+  for (const house of allHouses) {
+    const cells = getHouseCells(house);
+    for (let digit = 1; digit <= gridSize; digit++) {
+      const bit = 1 << digit;
+      const options = cells.filter(
+        (cell) => candidates[cell.row][cell.col] & bit
+      );
+      if (options.length !== 1) continue;
+      const [cell] = options;
+      return {
+        technique: "Hidden single",
+        placement: { ...cell, value: digit },
+        eliminations: [],
+        houses: [house],
+        cells: [cell],
+        digits: [digit],
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds a number whose candidates inside a box all lie on one row or column, which
+ * removes it from the rest of that row or column.
+ */
+const findPointingPair = (
+  _board: Board,
+  candidates: number[][]
+): SolverStep | null => {
+  for (const box of boxHouses) {
+    const boxCells = getHouseCells(box);
+    for (let digit = 1; digit <= gridSize; digit++) {
+      const bit = 1 << digit;
+      const options = boxCells.filter(
+        (cell) => candidates[cell.row][cell.col] & bit
+      );
+      if (options.length < 2) continue;
+
+      const lines: House[] = [];
+      if (options.every((cell) => cell.row === options[0].row)) {
+        lines.push({ type: "row", index: options[0].row });
+      }
+      if (options.every((cell) => cell.col === options[0].col)) {
+        lines.push({ type: "column", index: options[0].col });
+      }
+
+      for (const line of lines) {
+        const eliminations = getHouseCells(line)
+          .filter(
+            (cell) =>
+              getBoxIndex(cell.row, cell.col) !== box.index &&
+              candidates[cell.row][cell.col] & bit
+          )
+          .map((cell) => ({ ...cell, value: digit }));
+        if (eliminations.length === 0) continue;
+        return {
+          technique: "Pointing pair",
+          placement: null,
+          eliminations,
+          houses: [box, line],
+          cells: options,
+          digits: [digit],
+        };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds a number whose candidates in a row or column all lie in one box, which
+ * removes it from the rest of that box.
+ */
+const findBoxLineReduction = (
+  _board: Board,
+  candidates: number[][]
+): SolverStep | null => {
+  for (const line of [...rowHouses, ...columnHouses]) {
+    const lineCells = getHouseCells(line);
+    for (let digit = 1; digit <= gridSize; digit++) {
+      const bit = 1 << digit;
+      const options = lineCells.filter(
+        (cell) => candidates[cell.row][cell.col] & bit
+      );
+      if (options.length < 2) continue;
+      const boxIndex = getBoxIndex(options[0].row, options[0].col);
+      if (
+        !options.every((cell) => getBoxIndex(cell.row, cell.col) === boxIndex)
+      ) {
+        continue;
+      }
+
+      const box: House = { type: "box", index: boxIndex };
+      const eliminations = getHouseCells(box)
+        .filter(
+          (cell) =>
+            (line.type === "row"
+              ? cell.row !== line.index
+              : cell.col !== line.index) && candidates[cell.row][cell.col] & bit
+        )
+        .map((cell) => ({ ...cell, value: digit }));
+      if (eliminations.length === 0) continue;
+      return {
+        technique: "Box/line reduction",
+        placement: null,
+        eliminations,
+        houses: [line, box],
+        cells: options,
+        digits: [digit],
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds two cells in a house that share the same two candidates, which removes those
+ * candidates from every other cell in the house.
+ */
+const findNakedPair = (
+  _board: Board,
+  candidates: number[][]
+): SolverStep | null => {
+  for (const house of allHouses) {
+    const cells = getHouseCells(house);
+    const pairCells = cells.filter(
+      (cell) => countBits(candidates[cell.row][cell.col]) === 2
+    );
+    for (let i = 0; i < pairCells.length; i++) {
+      for (let j = i + 1; j < pairCells.length; j++) {
+        const first = pairCells[i];
+        const second = pairCells[j];
+        const mask = candidates[first.row][first.col];
+        if (mask !== candidates[second.row][second.col]) continue;
+
+        const eliminations = cells
+          .filter(
+            (cell) =>
+              cell !== first &&
+              cell !== second &&
+              candidates[cell.row][cell.col] & mask
+          )
+          .flatMap((cell) =>
+            maskToDigits(candidates[cell.row][cell.col] & mask).map(
+              (value) => ({ ...cell, value })
+            )
+          );
+        if (eliminations.length === 0) continue;
+        return {
+          technique: "Naked pair",
+          placement: null,
+          eliminations,
+          houses: [house],
+          cells: [first, second],
+          digits: maskToDigits(mask),
+        };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds two numbers that can only go in the same two cells of a house, which removes
+ * every other candidate from those two cells.
+ */
+const findHiddenPair = (
+  _board: Board,
+  candidates: number[][]
+): SolverStep | null => {
+  for (const house of allHouses) {
+    const cells = getHouseCells(house);
+    const digitCells = Array.from({ length: gridSize + 1 }, (_, digit) =>
+      cells.filter((cell) => candidates[cell.row][cell.col] & (1 << digit))
+    );
+    for (let first = 1; first <= gridSize; first++) {
+      if (digitCells[first].length !== 2) continue;
+      for (let second = first + 1; second <= gridSize; second++) {
+        if (
+          digitCells[second].length !== 2 ||
+          digitCells[first][0] !== digitCells[second][0] ||
+          digitCells[first][1] !== digitCells[second][1]
+        ) {
+          continue;
+        }
+
+        const pairMask = (1 << first) | (1 << second);
+        const eliminations = digitCells[first].flatMap((cell) =>
+          maskToDigits(candidates[cell.row][cell.col] & ~pairMask).map(
+            (value) => ({ ...cell, value })
+          )
+        );
+        if (eliminations.length === 0) continue;
+        return {
+          technique: "Hidden pair",
+          placement: null,
+          eliminations,
+          houses: [house],
+          cells: digitCells[first],
+          digits: [first, second],
+        };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds a number that appears in exactly two cells of two rows (or columns) which line
+ * up in the same two columns (or rows), which removes it from the rest of those
+ * columns (or rows).
+ */
+const findXWing = (
+  _board: Board,
+  candidates: number[][]
+): SolverStep | null => {
+  for (const [baseHouses, coverType] of [
+    [rowHouses, "column"],
+    [columnHouses, "row"],
+  ] as [House[], HouseType][]) {
+    for (let digit = 1; digit <= gridSize; digit++) {
+      const bit = 1 << digit;
+      const baseOptions = baseHouses.map((house) =>
+        getHouseCells(house).filter(
+          (cell) => candidates[cell.row][cell.col] & bit
+        )
+      );
+      const coverIndex = (cell: CellPosition) =>
+        coverType === "column" ? cell.col : cell.row;
+
+      for (let i = 0; i < gridSize; i++) {
+        if (baseOptions[i].length !== 2) continue;
+        for (let j = i + 1; j < gridSize; j++) {
+          if (
+            baseOptions[j].length !== 2 ||
+            coverIndex(baseOptions[i][0]) !== coverIndex(baseOptions[j][0]) ||
+            coverIndex(baseOptions[i][1]) !== coverIndex(baseOptions[j][1])
+          ) {
+            continue;
+          }
+
+          const coverHouses: House[] = baseOptions[i].map((cell) => ({
+            type: coverType,
+            index: coverIndex(cell),
+          }));
+          const eliminations = coverHouses
+            .flatMap((house) => getHouseCells(house))
+            .filter((cell) => {
+              const baseIndex = coverType === "column" ? cell.row : cell.col;
+              return (
+                baseIndex !== i &&
+                baseIndex !== j &&
+                candidates[cell.row][cell.col] & bit
+              );
+            })
+            .map((cell) => ({ ...cell, value: digit }));
+          if (eliminations.length === 0) continue;
+          return {
+            technique: "X-Wing",
+            placement: null,
+            eliminations,
+            houses: [baseHouses[i], baseHouses[j], ...coverHouses],
+            cells: [...baseOptions[i], ...baseOptions[j]],
+            digits: [digit],
+          };
+        }
+      }
+    }
+  }
+  return null;
+};
+
+const techniqueFinders = [
+  findHiddenSingle,
+  findNakedSingle,
+  findPointingPair,
+  findBoxLineReduction,
+  findNakedPair,
+  findHiddenPair,
+  findXWing,
+];
+
+/**
+ * Finds the next logical step for a board, trying the techniques from easiest to hardest.
+ *
+ * @param board - A 9x9 board where 0 represents an empty cell
+ * @param candidates - The candidate bitmasks of the board, which may already have had
+ *                     candidates eliminated by earlier steps
+ * @returns The step found, or null if none of the techniques make progress
+ */
+const findNextStep = (board: Board, candidates: number[][]) => {
+  for (const findStep of techniqueFinders) {
+    const step = findStep(board, candidates);
+    if (step) return step;
+  }
+  return null;
+};
+
+/**
+ * Applies a solver step to a board and its candidates in place. Placing a number also
+ * removes it from the candidates of every peer of the cell.
+ *
+ * @param board - The board to update
+ * @param candidates - The candidate bitmasks to update
+ * @param step - The step to apply
+ * @param variant - The variant whose extra rules decide which cells are peers
+ */
+const applyStep = (
+  board: Board,
+  candidates: number[][],
+  step: SolverStep,
+  variant: Variant = "classic"
+) => {
+  if (step.placement) {
+    const { row, col, value } = step.placement;
+    board[row][col] = value;
+    candidates[row][col] = 0;
+    for (let peerRow = 0; peerRow < gridSize; peerRow++) {
+      for (let peerCol = 0; peerCol < gridSize; peerCol++) {
+        if (arePeers({ row, col }, { row: peerRow, col: peerCol }, variant)) {
+          candidates[peerRow][peerCol] &= ~(1 << value);
+        }
+      }
+    }
+  }
+  step.eliminations.forEach(({ row, col, value }) => {
+    candidates[row][col] &= ~(1 << value);
+  });
+};
+
+/**
+ * Grades a puzzle by solving it step by step with human solving techniques.
+ *
+ * The difficulty is that of the hardest technique needed: singles only is Easy,
+ * pointing pairs, box/line reductions and pairs are Medium, and X-Wings are Hard.
+ * Puzzles the techniques can't finish are also graded Hard.
+ *
+ * @param board - A 9x9 puzzle where 0 represents an empty cell
+ * @param variant - The variant whose extra rules also apply
+ * @returns The difficulty, the distinct techniques used and whether the techniques
+ *          were enough to solve the puzzle
+ *
+ * @remarks
+ * The techniques only look at rows, columns and boxes, but a variant's extra rules
+ * still narrow down the candidates, so variant puzzles are graded too.
+ */
+const gradeBoard = (board: Board, variant: Variant = "classic"): BoardGrade => {
+  const workingBoard = copyBoard(board);
+  const candidates = getCandidateMasks(workingBoard, variant);
+  const techniques = new Set<SolvingTechnique>();
+
+  let step = findNextStep(workingBoard, candidates);
+  while (step) {
+    techniques.add(step.technique);
+    applyStep(workingBoard, candidates, step, variant);
+    step = findNextStep(workingBoard, candidates);
+  }
+
+  const solvedLogically = isBoardSolved(workingBoard, variant);
+  const hardestIndex = Math.max(
+    0,
+    ...[...techniques].map((technique) =>
+      difficultyOrder.indexOf(techniqueDifficulty[technique])
+    )
+  );
+  return {
+    difficulty: solvedLogically ? difficultyOrder[hardestIndex] : "Hard",
+    techniques: [...techniques],
+    solvedLogically,
+  };
+};
+
+export {
+  allHouses,
+  arePeers,
+  applyStep,
+  copyBoard,
+  countSolutions,
+  difficultyOrder,
+  findNextStep,
+  findUniqueSolution,
+  getBoxIndex,
+  getCandidateMasks,
+  getHouseCells,
+  gradeBoard,
+  isBoardSolved,
+  isBoardValid,
+  isCellInHouse,
+  maskToDigits,
+  searchSolutions,
+  solveBoard,
+};
+export type {
+  Board,
+  BoardGrade,
+  CellPosition,
+  CellValue,
+  Difficulty,
+  House,
+  HouseType,
+  SolverStep,
+  SolvingTechnique,
+};
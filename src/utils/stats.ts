@@ -0,0 +1,130 @@
+import type { Variant } from "./variants";
+
+const gameRecordsStorageKey = "waffle-game-records";
+const maxGameRecords = 500;
+
+interface GameRecord {
+  boardID: number;
+  difficulty: string;
+  completedAt: string;
+  time: number;
+  won: boolean;
+  hintsUsed: number;
+  undoCount: number;
+  mistakes: number;
+  offline?: boolean;
+  variant: Variant;
+}
+
+interface DifficultyStats {
+  difficulty: string;
+  played: number;
+  won: number;
+  bestTime: number | null;
+  averageTime: number | null;
+  medianTime: number | null;
+}
+
+interface GameStats {
+  played: number;
+  won: number;
+  winRate: number;
+  averageHintsUsed: number;
+  averageMistakes: number;
+  byDifficulty: DifficultyStats[];
+}
+
+/**
+ * Loads the records of completed games from localStorage.
+ *
+ * @returns The records, oldest first, or an empty list if there are none or they could not be read
+ */
+const loadGameRecords = (): GameRecord[] => {
+  try {
+    const records = localStorage.getItem(gameRecordsStorageKey);
+    if (!records) return [];
+    const parsedRecords: unknown = JSON.parse(records);
+    return Array.isArray(parsedRecords) ? parsedRecords : [];
+  } catch (error) {
+    console.error("Error loading game records:", error);
+    return [];
+  }
+};
+
+/**
+ * Adds the record of a completed game to localStorage, keeping only the most recent games.
+ *
+ * @param record - The game to record
+ * @returns The updated records, oldest first
+ */
+const recordGame = (record: GameRecord) => {
+  const records = [...loadGameRecords(), record].slice(-maxGameRecords);
+  try {
+    localStorage.setItem(gameRecordsStorageKey, JSON.stringify(records));
+  } catch (error) {
+    console.error("Error saving game record:", error);
+  }
+  return records;
+};
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((total, value) => total + value, 0) / values.length
+    : null;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+/**
+ * Summarises the records of completed games.
+ *
+ * @param records - The records to summarise
+ * @param difficulties - Difficulties to always include, in order, even if none have been played.
+ *                       Other difficulties found in the records are added after them.
+ * @returns Totals across all games, and times per difficulty. Times only count games that were won.
+ */
+const calculateStats = (
+  records: GameRecord[],
+  difficulties: readonly string[] = []
+): GameStats => {
+  const won = records.filter((record) => record.won).length;
+  const allDifficulties = [
+    ...new Set([
+      ...difficulties,
+      ...records.map((record) => record.difficulty),
+    ]),
+  ];
+
+  return {
+    played: records.length,
+    won,
+    winRate: records.length > 0 ? won / records.length : 0,
+    averageHintsUsed: average(records.map((record) => record.hintsUsed)) ?? 0,
+    averageMistakes: average(records.map((record) => record.mistakes)) ?? 0,
+    byDifficulty: allDifficulties.map((difficulty) => {
+      const difficultyRecords = records.filter(
+        (record) => record.difficulty === difficulty
+      );
+      const times = difficultyRecords
+        .filter((record) => record.won)
+        .map((record) => record.time);
+      return {
+        difficulty,
+        played: difficultyRecords.length,
+        won: times.length,
+        bestTime: times.length > 0 ? Math.min(...times) : null,
+        averageTime: average(times),
+        medianTime: median(times),
+      };
+    }),
+  };
+};
+
+export { calculateStats, loadGameRecords, recordGame };
+export type { DifficultyStats, GameRecord, GameStats };
@@ -0,0 +1,23 @@
+/**
+ * Formats a time value in seconds to a string representation in "MM:SS" format.
+ *
+ * @param time - The time value in seconds to format
+ * @returns A string in the format "MM:SS" where minutes and seconds are both two digits with leading zeros if necessary
+ *
+ * @example
+ * // Returns "02:05"
+ * formatTime(125);
+ *
+ * @example
+ * // Returns "00:09"
+ * formatTime(9);
+ */
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60)
+    .toString()
+    .padStart(2, "0");
+  const seconds = (time % 60).toString().padStart(2, "0");
+  return `${minutes}:${seconds}`;
+};
+
+export { formatTime };
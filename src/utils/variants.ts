@@ -0,0 +1,190 @@
+import type { CellPosition } from "./solver";
+
+type Variant =
+  "classic" | "diagonal" | "hyper" | "anti-king" | "anti-knight" | "killer";
+
+/**
+ * The rules a variant adds on top of the classic rows, columns and boxes.
+ */
+interface Constraint {
+  name: string;
+  rules: string;
+  // Extra houses in which a number can't repeat, which are shaded on the board
+  regions: CellPosition[][];
+  // Offsets from a cell to the cells that can't hold the same number as it
+  offsets: [number, number][];
+}
+
+const gridSize = 9;
+
+const variantOrder: Variant[] = [
+  "classic",
+  "diagonal",
+  "hyper",
+  "anti-king",
+  "anti-knight",
+  "killer",
+];
+
+const createWindow = (top: number, left: number): CellPosition[] =>
+  Array.from({ length: 9 }, (_, i) => ({
+    row: top + Math.floor(i / 3),
+    col: left + (i % 3),
+  }));
+
+const constraints: Record<Variant, Constraint> = {
+  classic: {
+    name: "Classic",
+    rules: "",
+    regions: [],
+    offsets: [],
+  },
+  diagonal: {
+    name: "Diagonal",
+    rules:
+      "The numbers 1 to 9 also appear once along each of the two shaded diagonals.",
+    regions: [
+      Array.from({ length: gridSize }, (_, i) => ({ row: i, col: i })),
+      Array.from({ length: gridSize }, (_, i) => ({
+        row: i,
+        col: gridSize - 1 - i,
+      })),
+    ],
+    offsets: [],
+  },
+  hyper: {
+    name: "Hyper",
+    rules:
+      "The numbers 1 to 9 also appear once in each of the four shaded windows.",
+    regions: [
+      createWindow(1, 1),
+      createWindow(1, 5),
+      createWindow(5, 1),
+      createWindow(5, 5),
+    ],
+    offsets: [],
+  },
+  "anti-king": {
+    name: "Anti-King",
+    rules:
+      "Cells a king's move apart, including diagonally, can't hold the same number.",
+    regions: [],
+    offsets: [
+      [-1, -1],
+      [-1, 0],
+      [-1, 1],
+      [0, -1],
+      [0, 1],
+      [1, -1],
+      [1, 0],
+      [1, 1],
+    ],
+  },
+  "anti-knight": {
+    name: "Anti-Knight",
+    rules: "Cells a knight's move apart can't hold the same number.",
+    regions: [],
+    offsets: [
+      [-2, -1],
+      [-2, 1],
+      [-1, -2],
+      [-1, 2],
+      [1, -2],
+      [1, 2],
+      [2, -1],
+      [2, 1],
+    ],
+  },
+  // The cages of a Killer puzzle differ from puzzle to puzzle, so they're kept with the puzzle
+  killer: {
+    name: "Killer",
+    rules:
+      "The numbers in each dashed cage add up to the sum in its corner, and can't repeat within the cage.",
+    regions: [],
+    offsets: [],
+  },
+};
+
+// The extra peers of every cell, worked out once per variant as the solver asks for them often
+const variantPeers = new Map<Variant, CellPosition[][][]>();
+
+/**
+ * Checks whether a value, such as one read from a URL or a save file, names a variant.
+ */
+const isVariant = (value: unknown): value is Variant =>
+  variantOrder.includes(value as Variant);
+
+/**
+ * Lists the cells that can't hold the same number as a cell because of the variant's
+ * rules, leaving out its row, column and box, which every variant shares.
+ *
+ * @param variant - The variant being played
+ * @param row - The row index (0-8) of the cell
+ * @param col - The column index (0-8) of the cell
+ * @returns The positions of the extra peers, which may include cells that are also in
+ *          the cell's row, column or box
+ */
+const getVariantPeers = (variant: Variant, row: number, col: number) => {
+  let peers = variantPeers.get(variant);
+  if (!peers) {
+    const { regions, offsets } = constraints[variant];
+    peers = Array.from({ length: gridSize }, (_, cellRow) =>
+      Array.from({ length: gridSize }, (_, cellCol) => {
+        const cellPeers: CellPosition[] = [];
+        const addPeer = (peer: CellPosition) => {
+          if (
+            (peer.row !== cellRow || peer.col !== cellCol) &&
+            !cellPeers.some(
+              ({ row: peerRow, col: peerCol }) =>
+                peerRow === peer.row && peerCol === peer.col
+            )
+          ) {
+            cellPeers.push(peer);
+          }
+        };
+        regions
+          .filter((region) =>
+            region.some((cell) => cell.row === cellRow && cell.col === cellCol)
+          )
+          .forEach((region) => region.forEach(addPeer));
+        offsets
+          .map(([rowOffset, colOffset]) => ({
+            row: cellRow + rowOffset,
+            col: cellCol + colOffset,
+          }))
+          .filter(
+            (peer) =>
+              peer.row >= 0 &&
+              peer.row < gridSize &&
+              peer.col >= 0 &&
+              peer.col < gridSize
+          )
+          .forEach(addPeer);
+        return cellPeers;
+      })
+    );
+    variantPeers.set(variant, peers);
+  }
+  return peers[row][col];
+};
+
+/**
+ * Checks whether a cell belongs to one of the variant's shaded regions.
+ *
+ * @param variant - The variant being played
+ * @param row - The row index (0-8) of the cell
+ * @param col - The column index (0-8) of the cell
+ */
+const isInVariantRegion = (variant: Variant, row: number, col: number) =>
+  constraints[variant].regions.some((region) =>
+    region.some((cell) => cell.row === row && cell.col === col)
+  );
+
+export {
+  constraints,
+  getVariantPeers,
+  isInVariantRegion,
+  isVariant,
+  variantOrder,
+};
+export type { Constraint, Variant };
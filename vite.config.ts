@@ -2,6 +2,20 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   plugins: [react()],
-})
+  server: {
+    // Mirror the /api route of index.js, forwarding to the backend, or in mock mode to
+    // the mock API served by `npm run mock-api` (see mock/api.js)
+    proxy: {
+      '/api':
+        mode === 'mock'
+          ? 'http://localhost:3700'
+          : {
+              target: 'https://waffle-api.philipwhite.dev',
+              changeOrigin: true,
+              rewrite: (path) => path.replace(/^\/api/, ''),
+            },
+    },
+  },
+}))